@@ -29,6 +29,22 @@ const fetchActualDemos = async (page: any) => {
   return demos;
 };
 
+// Helper: create a fresh account through the sign-in page, adding posts needs a signed-in user
+const signUp = async (page: any, nonce: string) => {
+  await page.goto('/auth/signin', { waitUntil: 'networkidle' });
+  await page.waitForLoadState('domcontentloaded');
+  await page.click('button:has-text("No account yet? Sign up")');
+  await page.fill('form:has(input[name=password]) input[name=email]', `smoke-${nonce}@example.com`);
+  await page.fill('input[name=password]', `password-${nonce}`);
+
+  // Signing up redirects back to the homepage
+  await Promise.all([
+    page.waitForURL((url: URL) => url.pathname === '/', { timeout: 10000 }),
+    page.click('button[type=submit]:has-text("Sign up")'),
+  ]);
+  await page.waitForLoadState('networkidle');
+};
+
 test('go to /', async ({ page }) => {
   // Navigate to the homepage
   await page.goto('/', { waitUntil: 'networkidle' });
@@ -49,9 +65,9 @@ test('go to /', async ({ page }) => {
 test('add a post', async ({ page }) => {
   const nonce = `${Math.random()}`;
 
-  // Navigate to the homepage
-  await page.goto('/', { waitUntil: 'networkidle' });
-  await page.waitForLoadState('domcontentloaded');
+  // Sign up, which lands on the homepage with the form shown
+  await signUp(page, nonce);
+  await waitVisible(page, 'input[name=title]');
 
   // Fill in the form
   await page.fill('input[name=title]', nonce);
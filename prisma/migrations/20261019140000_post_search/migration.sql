@@ -0,0 +1,9 @@
+-- AlterTable
+-- Prisma can't express generated columns, so this one is maintained by Postgres and never written by the client
+ALTER TABLE "Post" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("text", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Post_searchVector_idx" ON "Post" USING GIN ("searchVector");
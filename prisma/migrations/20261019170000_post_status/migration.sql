@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "PostStatus" AS ENUM ('draft', 'scheduled', 'published', 'archived');
+
+-- AlterTable
+ALTER TABLE "Post" ADD COLUMN     "publishAt" TIMESTAMP(3),
+ADD COLUMN     "status" "PostStatus" NOT NULL DEFAULT 'published';
+
+-- CreateIndex
+CREATE INDEX "Post_status_publishAt_idx" ON "Post"("status", "publishAt");
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "Post" ADD COLUMN     "slug" TEXT;
+
+-- Backfill slugs from titles, like `slugify()` in `src/server/slug.ts`.
+-- Duplicates get part of the id appended so existing posts never collide.
+WITH "base" AS (
+    SELECT "id", "createdAt", COALESCE(NULLIF(TRIM(BOTH '-' FROM LEFT(REGEXP_REPLACE(LOWER("title"), '[^a-z0-9]+', '-', 'g'), 60)), ''), 'post') AS "slug"
+    FROM "Post"
+), "numbered" AS (
+    SELECT "id", "slug", ROW_NUMBER() OVER (PARTITION BY "slug" ORDER BY "createdAt", "id") AS "n"
+    FROM "base"
+)
+UPDATE "Post"
+SET "slug" = CASE WHEN "numbered"."n" = 1 THEN "numbered"."slug" ELSE "numbered"."slug" || '-' || LEFT("Post"."id", 8) END
+FROM "numbered"
+WHERE "numbered"."id" = "Post"."id";
+
+ALTER TABLE "Post" ALTER COLUMN "slug" SET NOT NULL;
+
+-- CreateTable
+CREATE TABLE "PostSlugRedirect" (
+    "slug" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PostSlugRedirect_pkey" PRIMARY KEY ("slug")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Post_slug_key" ON "Post"("slug");
+
+-- CreateIndex
+CREATE INDEX "PostSlugRedirect_postId_idx" ON "PostSlugRedirect"("postId");
+
+-- AddForeignKey
+ALTER TABLE "PostSlugRedirect" ADD CONSTRAINT "PostSlugRedirect_postId_fkey" FOREIGN KEY ("postId") REFERENCES "Post"("id") ON DELETE CASCADE ON UPDATE CASCADE;
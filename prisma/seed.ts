@@ -17,6 +17,18 @@ const prisma = new PrismaClient({
 
 
 async function main() {
+  // has no password, sign in as this user with a magic link
+  const author = await prisma.user.upsert({
+    where: {
+      email: 'seed@example.com',
+    },
+    create: {
+      email: 'seed@example.com',
+      name: 'Seed User',
+    },
+    update: {},
+  });
+
   const firstPostId = '5c03994c-fc16-47e0-bd02-d218a370a078';
   await prisma.post.upsert({
     where: {
@@ -24,8 +36,10 @@ async function main() {
     },
     create: {
       id: firstPostId,
+      slug: 'first-post',
       title: 'First Post',
       text: 'This is an example post generated from `prisma/seed.ts`',
+      authorId: author.id,
     },
     update: {},
   });
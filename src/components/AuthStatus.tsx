@@ -0,0 +1,43 @@
+import Link from 'next/link';
+
+import { trpc } from '~/utils/trpc';
+
+/**
+ * AuthStatus Component
+ *
+ * Shows who is signed in with a sign-out button, or a link to sign in
+ */
+export const AuthStatus = () => {
+  const utils = trpc.useUtils();
+  const meQuery = trpc.auth.me.useQuery();
+  const signOut = trpc.auth.signOut.useMutation({
+    async onSuccess() {
+      await utils.auth.me.invalidate();
+    },
+  });
+
+  if (meQuery.status !== 'success') {
+    return null;
+  }
+
+  if (!meQuery.data) {
+    return (
+      <Link className="text-gray-300 underline" href="/auth/signin">
+        Sign in
+      </Link>
+    );
+  }
+
+  return (
+    <p className="text-gray-400">
+      Signed in as {meQuery.data.name ?? meQuery.data.email}{' '}
+      <button
+        className="text-gray-300 underline"
+        onClick={() => signOut.mutate()}
+        disabled={signOut.isPending}
+      >
+        Sign out
+      </button>
+    </p>
+  );
+};
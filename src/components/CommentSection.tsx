@@ -0,0 +1,235 @@
+import { useCallback, useOptimistic, useState, useTransition } from 'react';
+
+import type { RouterOutput } from '~/utils/trpc';
+import { trpc } from '~/utils/trpc';
+import { ErrorMessage } from './ErrorMessage';
+
+/**
+ * CommentSection Component
+ *
+ * Threaded comments for a post. New comments show up instantly through `useOptimistic`
+ * and are replaced by the saved comment once the list has been refetched.
+ */
+
+type CommentItem = RouterOutput['comment']['list']['items'][number] & {
+  pending?: boolean;
+};
+
+type CommentSectionProps = { postId: string };
+
+const inputClassName =
+  'focus-visible:outline-dashed outline-offset-4 outline-2 outline-gray-700 rounded-xl px-4 py-3 bg-gray-900';
+
+function CommentForm(props: {
+  placeholder: string;
+  onSubmit: (text: string) => void;
+  onCancel?: () => void;
+}) {
+  return (
+    <form
+      className="flex flex-col gap-y-2 py-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        const $form = e.currentTarget;
+        const text = (new FormData($form).get('text') as string).trim();
+        if (text) {
+          props.onSubmit(text);
+          $form.reset();
+        }
+      }}
+    >
+      <textarea
+        className={`resize-none ${inputClassName}`}
+        name="text"
+        placeholder={props.placeholder}
+        rows={2}
+      />
+      <div className="flex gap-x-2">
+        <button className="bg-gray-900 p-2 rounded-md px-8" type="submit">
+          Comment
+        </button>
+        {props.onCancel && (
+          <button
+            className="p-2 rounded-md px-8 text-gray-400"
+            type="button"
+            onClick={props.onCancel}
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+function CommentNode(props: {
+  comment: CommentItem;
+  repliesByParent: Map<string | null, CommentItem[]>;
+  currentUserId: string | undefined;
+  onReply: (text: string, parentId: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  const { comment, repliesByParent, currentUserId, onReply, onDelete } = props;
+  const [isReplying, setIsReplying] = useState(false);
+  const replies = repliesByParent.get(comment.id) ?? [];
+
+  return (
+    <li
+      className={`border-l-2 pl-4 py-1 ${comment.pending ? 'border-yellow-500 opacity-70' : 'border-gray-700'}`}
+    >
+      <p className="text-sm text-gray-400">
+        {comment.author?.name ?? 'Anonymous'} ·{' '}
+        {comment.createdAt.toLocaleString('en-us')}
+        {comment.pending && (
+          <span className="text-xs text-yellow-500 ml-2">pending...</span>
+        )}
+      </p>
+      <p className="break-all">{comment.text}</p>
+      {!comment.pending && (
+        <div className="flex gap-x-4 text-sm text-gray-400">
+          {currentUserId && (
+            <button className="underline" onClick={() => setIsReplying(true)}>
+              Reply
+            </button>
+          )}
+          {currentUserId && comment.author?.id === currentUserId && (
+            <button className="underline" onClick={() => onDelete(comment.id)}>
+              Delete
+            </button>
+          )}
+        </div>
+      )}
+      {isReplying && (
+        <CommentForm
+          placeholder="Write a reply"
+          onSubmit={(text) => {
+            onReply(text, comment.id);
+            setIsReplying(false);
+          }}
+          onCancel={() => setIsReplying(false)}
+        />
+      )}
+      {replies.length > 0 && (
+        <ul className="flex flex-col gap-y-2 pt-2">
+          {replies.map((reply) => (
+            <CommentNode key={reply.id} {...props} comment={reply} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export const CommentSection = ({ postId }: CommentSectionProps) => {
+  const utils = trpc.useUtils();
+  const meQuery = trpc.auth.me.useQuery();
+  const commentsQuery = trpc.comment.list.useInfiniteQuery(
+    { postId },
+    {
+      getNextPageParam(lastPage) {
+        return lastPage.nextCursor;
+      },
+    },
+  );
+  const addComment = trpc.comment.add.useMutation();
+  const deleteComment = trpc.comment.delete.useMutation({
+    async onSuccess() {
+      await utils.comment.list.invalidate({ postId });
+    },
+  });
+
+  const comments: CommentItem[] =
+    commentsQuery.data?.pages.flatMap((page) => page.items) ?? [];
+  const [_isPending, startTransition] = useTransition();
+  const [optimisticComments, addOptimisticComment] = useOptimistic<
+    CommentItem[],
+    CommentItem
+  >(comments, (state, newComment) => [
+    ...state,
+    { ...newComment, pending: true },
+  ]);
+
+  /**
+   * Same flow as the `useOptimistic` demo: the comment is shown right away inside a transition,
+   * and the optimistic copy is dropped once the transition ends with the refetched list.
+   */
+  const handleAddComment = useCallback(
+    (text: string, parentId?: string) => {
+      const me = meQuery.data;
+      if (!me) {
+        return;
+      }
+      startTransition(async () => {
+        try {
+          addOptimisticComment({
+            id: `temp-${Date.now()}-${Math.random()}`,
+            text,
+            parentId: parentId ?? null,
+            createdAt: new Date(),
+            author: { id: me.id, name: me.name },
+          });
+          await addComment.mutateAsync({ postId, parentId, text });
+          await utils.comment.list.invalidate({ postId });
+        } catch (error) {
+          console.error('Failed to add comment:', error);
+        }
+      });
+    },
+    [meQuery.data, addOptimisticComment, addComment, postId, utils],
+  );
+
+  const repliesByParent = new Map<string | null, CommentItem[]>();
+  for (const comment of optimisticComments) {
+    const siblings = repliesByParent.get(comment.parentId) ?? [];
+    siblings.push(comment);
+    repliesByParent.set(comment.parentId, siblings);
+  }
+  const topLevel = repliesByParent.get(null) ?? [];
+
+  return (
+    <section className="flex flex-col py-4">
+      <h2 className="text-2xl font-semibold py-2">
+        Comments
+        {commentsQuery.status === 'pending' && '(loading)'}
+      </h2>
+
+      {meQuery.data ? (
+        <CommentForm
+          placeholder="Write a comment"
+          onSubmit={(text) => handleAddComment(text)}
+        />
+      ) : (
+        <p className="text-gray-400">Sign in to comment.</p>
+      )}
+      {addComment.error && <ErrorMessage error={addComment.error} />}
+      {deleteComment.error && (
+        <p style={{ color: 'red' }}>{deleteComment.error.message}</p>
+      )}
+
+      <ul className="flex flex-col gap-y-2">
+        {topLevel.map((comment) => (
+          <CommentNode
+            key={comment.id}
+            comment={comment}
+            repliesByParent={repliesByParent}
+            currentUserId={meQuery.data?.id}
+            onReply={handleAddComment}
+            onDelete={(id) => deleteComment.mutate({ id })}
+          />
+        ))}
+      </ul>
+
+      {commentsQuery.hasNextPage && (
+        <button
+          className="bg-gray-900 p-2 rounded-md font-semibold disabled:bg-gray-700 disabled:text-gray-400 w-fit mt-2"
+          onClick={() => commentsQuery.fetchNextPage()}
+          disabled={commentsQuery.isFetchingNextPage}
+        >
+          {commentsQuery.isFetchingNextPage
+            ? 'Loading more...'
+            : 'More comments'}
+        </button>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import type { ErrorTree } from '~/utils/fieldErrors';
+
+/**
+ * ErrorMessage Component
+ *
+ * Shows the message of a failed call, counting down until the next try when it was rate limited
+ */
+
+export interface ErrorMessageProps {
+  error: {
+    message: string;
+    data?: {
+      retryAfterMs: number | null;
+      zodError?: ErrorTree | null;
+    } | null;
+  };
+  /**
+   * Replaces the raw validation issues when the form shows them next to its fields
+   */
+  invalidInputMessage?: string;
+}
+
+function RetryCountdown({ retryAfterMs }: { retryAfterMs: number }) {
+  const [seconds, setSeconds] = useState(Math.ceil(retryAfterMs / 1000));
+
+  useEffect(() => {
+    if (seconds <= 0) {
+      return;
+    }
+    const timeout = setTimeout(() => setSeconds(seconds - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [seconds]);
+
+  return seconds > 0 ? (
+    <>Too many requests, try again in {seconds}s</>
+  ) : (
+    <>Too many requests, you can try again now</>
+  );
+}
+
+export const ErrorMessage = ({
+  error,
+  invalidInputMessage,
+}: ErrorMessageProps) => {
+  const retryAfterMs = error.data?.retryAfterMs;
+  const zodError = error.data?.zodError;
+  return (
+    <p style={{ color: 'red' }}>
+      {retryAfterMs ? (
+        <RetryCountdown retryAfterMs={retryAfterMs} />
+      ) : zodError && invalidInputMessage ? (
+        // issues that belong to no single field
+        (zodError.errors[0] ?? invalidInputMessage)
+      ) : (
+        error.message
+      )}
+    </p>
+  );
+};
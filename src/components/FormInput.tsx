@@ -1,5 +1,6 @@
 'use client';
 
+import { clsx } from 'clsx';
 import type { InputHTMLAttributes } from 'react';
 
 /**
@@ -22,10 +23,12 @@ export const FormInput = ({
   helper,
   required = false,
   containerClassName = '',
+  className,
   name,
   type = 'text',
   ...inputProps
 }: FormInputProps) => {
+  const errorId = error && name ? `${name}-error` : undefined;
   return (
     <div className={containerClassName}>
       {label && (
@@ -38,14 +41,25 @@ export const FormInput = ({
         type={type}
         name={name}
         id={name}
-        className={`w-full px-4 py-2 border rounded-md focus:outline-none focus:ring-2 transition ${
-          error
-            ? 'border-red-400 focus:ring-red-500 bg-red-50'
-            : 'border-gray-300 focus:ring-blue-500'
-        } disabled:bg-gray-100`}
+        // a `className` replaces the default look, errors still get a red ring
+        className={
+          className
+            ? clsx(className, error && 'ring-2 ring-red-500')
+            : `w-full px-4 py-2 border rounded-md focus:outline-none focus:ring-2 transition ${
+                error
+                  ? 'border-red-400 focus:ring-red-500 bg-red-50'
+                  : 'border-gray-300 focus:ring-blue-500'
+              } disabled:bg-gray-100`
+        }
+        aria-invalid={error ? true : undefined}
+        aria-describedby={errorId}
         {...inputProps}
       />
-      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+      {error && (
+        <p id={errorId} className="mt-1 text-sm text-red-600">
+          {error}
+        </p>
+      )}
       {helper && !error && <p className="mt-1 text-sm text-gray-500">{helper}</p>}
     </div>
   );
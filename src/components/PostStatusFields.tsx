@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import type { PostStatus } from '~/utils/postStatus';
+import { postStatusLabels, toDateTimeLocal } from '~/utils/postStatus';
+
+/**
+ * PostStatusFields Component
+ *
+ * Status select for the post forms, with a publish date input when scheduling.
+ * Read the values back with `parsePostStatusInput()`.
+ */
+
+export interface PostStatusFieldsProps {
+  defaultStatus?: PostStatus;
+  defaultPublishAt?: Date | null;
+  disabled?: boolean;
+  /**
+   * Shown under the publish date, e.g. from `fieldErrorsOf()`
+   */
+  publishAtError?: string;
+}
+
+export const PostStatusFields = ({
+  defaultStatus = 'published',
+  defaultPublishAt,
+  disabled,
+  publishAtError,
+}: PostStatusFieldsProps) => {
+  const [status, setStatus] = useState(defaultStatus);
+
+  return (
+    <div className="flex flex-wrap gap-4">
+      <select
+        className="focus-visible:outline-dashed outline-offset-4 outline-2 outline-gray-700 rounded-xl px-4 py-3 bg-gray-900"
+        name="status"
+        aria-label="Status"
+        value={status}
+        disabled={disabled}
+        onChange={(e) => setStatus(e.currentTarget.value as PostStatus)}
+      >
+        {Object.entries(postStatusLabels).map(([value, label]) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+      {status === 'scheduled' && (
+        <input
+          className="focus-visible:outline-dashed outline-offset-4 outline-2 outline-gray-700 rounded-xl px-4 py-3 bg-gray-900"
+          name="publishAt"
+          type="datetime-local"
+          aria-label="Publish at"
+          required
+          defaultValue={
+            defaultPublishAt ? toDateTimeLocal(defaultPublishAt) : undefined
+          }
+          disabled={disabled}
+        />
+      )}
+      {publishAtError && (
+        <p className="w-full text-sm text-red-600">{publishAtError}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import Link from 'next/link';
+
+/**
+ * TagChips Component
+ *
+ * Renders tags as small chips linking to the post list filtered by that tag
+ */
+
+export interface TagChipsProps {
+  tags: { id: string; name: string }[];
+  className?: string;
+}
+
+export const TagChips = ({ tags, className = '' }: TagChipsProps) => {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className={`flex flex-wrap gap-2 ${className}`}>
+      {tags.map((tag) => (
+        <li key={tag.id}>
+          <Link
+            href={{ pathname: '/', query: { tag: tag.name } }}
+            className="inline-block rounded-full bg-gray-900 px-3 py-1 text-xs font-semibold text-gray-300 hover:bg-gray-700"
+          >
+            #{tag.name}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+};
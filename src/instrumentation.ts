@@ -0,0 +1,17 @@
+/**
+ * Runs once when the Next.js server starts
+ * @see https://nextjs.org/docs/pages/guides/instrumentation
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { describeFeatures, env } = await import('./server/env');
+    const { logger } = await import('./server/logger');
+    logger.info('Starting with optional features', describeFeatures(env));
+    if (env.OTEL_EXPORTER_OTLP_ENDPOINT) {
+      const { startTracing } = await import('./server/tracing');
+      startTracing({ endpoint: env.OTEL_EXPORTER_OTLP_ENDPOINT });
+    }
+    const { postScheduler } = await import('./server/scheduler');
+    postScheduler.start();
+  }
+}
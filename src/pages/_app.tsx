@@ -4,6 +4,7 @@ import type { ReactElement, ReactNode } from 'react';
 
 import { DefaultLayout } from '~/components/DefaultLayout';
 import { trpc } from '~/utils/trpc';
+import 'highlight.js/styles/github-dark.css';
 import '~/styles/globals.css';
 
 export type NextPageWithLayout<
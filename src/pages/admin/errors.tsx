@@ -0,0 +1,87 @@
+import Link from 'next/link';
+
+import type { NextPageWithLayout } from '~/pages/_app';
+import { trpc } from '~/utils/trpc';
+
+const AdminErrorsPage: NextPageWithLayout = () => {
+  const utils = trpc.useUtils();
+  const meQuery = trpc.auth.me.useQuery();
+  const errorsQuery = trpc.admin.errors.useQuery(undefined, {
+    enabled: !!meQuery.data,
+    retry: false,
+  });
+  const resolveError = trpc.admin.resolveError.useMutation({
+    async onSuccess() {
+      await utils.admin.errors.invalidate();
+    },
+  });
+  const error = resolveError.error ?? errorsQuery.error;
+
+  return (
+    <div className="flex flex-col bg-gray-800 py-8 px-8">
+      <Link className="text-gray-300 underline mb-4" href="/">
+        Home
+      </Link>
+      <h1 className="text-4xl font-bold pb-4">
+        Errors
+        {errorsQuery.isLoading && '(loading)'}
+      </h1>
+
+      {meQuery.data === null && (
+        <p className="text-gray-400">
+          <Link className="underline" href="/auth/signin">
+            Sign in
+          </Link>{' '}
+          as an admin to see errors.
+        </p>
+      )}
+      {error && <p style={{ color: 'red' }}>{error.message}</p>}
+      {errorsQuery.data?.items.length === 0 && (
+        <p className="text-gray-400">No unexpected errors, nice.</p>
+      )}
+
+      <ul className="flex flex-col gap-y-6">
+        {errorsQuery.data?.items.map((item) => (
+          <li key={item.fingerprint}>
+            <h2 className="text-xl font-semibold">
+              {item.path ?? '(unknown path)'}: {item.message}
+            </h2>
+            <p className="text-gray-400">
+              {item.count} {item.count === 1 ? 'time' : 'times'}
+              {' · '}first {item.firstSeenAt.toLocaleString('en-us')}
+              {' · '}last {item.occurredAt.toLocaleString('en-us')}
+              {' · '}
+              {item.type} {item.code}
+              {item.userId && ` · user ${item.userId}`}
+              {item.requestId && ` · request ${item.requestId}`}
+            </p>
+            <details className="pt-2">
+              <summary className="cursor-pointer text-gray-300">
+                Input and stack
+              </summary>
+              <pre className="overflow-x-auto text-sm text-gray-300 py-2">
+                {JSON.stringify(item.input, null, 2) ?? 'undefined'}
+              </pre>
+              <pre className="overflow-x-auto text-sm text-gray-400">
+                {item.stack}
+              </pre>
+            </details>
+            <div className="flex gap-x-2 pt-2">
+              <button
+                className="bg-gray-900 p-2 rounded-md font-semibold px-8"
+                disabled={resolveError.isPending}
+                onClick={() =>
+                  resolveError.mutate({ fingerprint: item.fingerprint })
+                }
+              >
+                Resolve
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default AdminErrorsPage;
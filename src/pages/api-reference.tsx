@@ -0,0 +1,139 @@
+import type { InferGetStaticPropsType } from 'next';
+import Link from 'next/link';
+
+import type { NextPageWithLayout } from '~/pages/_app';
+import { env } from '~/server/env';
+import type { JsonSubSchema, OpenApiDocument } from '~/server/openapi';
+import { API_DOCUMENT, generateOpenApiDocument } from '~/server/openapi';
+import { appRouter } from '~/server/routers/_app';
+
+type Operation =
+  OpenApiDocument['paths'][string][keyof OpenApiDocument['paths'][string]];
+
+function SchemaBlock({ schema }: { schema: JsonSubSchema }) {
+  return (
+    <pre className="overflow-x-auto text-sm text-gray-300 bg-gray-900 rounded-md p-2">
+      {JSON.stringify(schema, null, 2)}
+    </pre>
+  );
+}
+
+function OperationItem({
+  method,
+  path,
+  operation,
+}: {
+  method: string;
+  path: string;
+  operation: Operation;
+}) {
+  return (
+    <li className="flex flex-col gap-y-2">
+      <h2 className="text-xl font-semibold">
+        <code>
+          {method.toUpperCase()} {path}
+        </code>
+      </h2>
+      <p>
+        {operation.summary}
+        {'security' in operation && (
+          <span className="text-gray-400"> · needs a signed-in session</span>
+        )}
+      </p>
+      {operation.description && (
+        <p className="text-gray-400">{operation.description}</p>
+      )}
+      {operation.parameters.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-gray-300">Parameters</summary>
+          <ul className="flex flex-col gap-y-2 pt-2">
+            {operation.parameters.map((parameter) => (
+              <li key={parameter.name}>
+                <code>{parameter.name}</code> in {parameter.in}
+                {parameter.required ? ', required' : ''}
+                {'content' in parameter ? ', as JSON' : ''}
+                <SchemaBlock
+                  schema={
+                    'content' in parameter
+                      ? parameter.content['application/json'].schema
+                      : parameter.schema
+                  }
+                />
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {operation.requestBody && (
+        <details>
+          <summary className="cursor-pointer text-gray-300">
+            Request body
+          </summary>
+          <SchemaBlock
+            schema={operation.requestBody.content['application/json'].schema}
+          />
+        </details>
+      )}
+      {Object.entries(operation.responses).map(([status, response]) => (
+        <details key={status}>
+          <summary className="cursor-pointer text-gray-300">
+            {status === 'default' ? 'Errors' : status} response
+          </summary>
+          <SchemaBlock schema={response.content['application/json'].schema} />
+        </details>
+      ))}
+    </li>
+  );
+}
+
+const ApiReferencePage: NextPageWithLayout<
+  InferGetStaticPropsType<typeof getStaticProps>
+> = ({ document }) => {
+  return (
+    <div className="flex flex-col bg-gray-800 py-8 px-8">
+      <Link className="text-gray-300 underline mb-4" href="/">
+        Home
+      </Link>
+      <h1 className="text-4xl font-bold pb-4">
+        {document.info.title} {document.info.version}
+      </h1>
+      <p className="text-gray-400 pb-4">
+        Endpoints are served from <code>{document.servers[0].url}</code> and
+        speak plain JSON. Download the{' '}
+        <a className="underline" href="/api/v1/openapi.json">
+          OpenAPI document
+        </a>{' '}
+        to generate a client.
+      </p>
+
+      <ul className="flex flex-col gap-y-8">
+        {Object.entries(document.paths).flatMap(([path, operations]) =>
+          Object.entries(operations).map(([method, operation]) => (
+            <OperationItem
+              key={`${method} ${path}`}
+              method={method}
+              path={path}
+              operation={operation}
+            />
+          )),
+        )}
+      </ul>
+    </div>
+  );
+};
+
+export default ApiReferencePage;
+
+/**
+ * The reference is generated when the app is built, it only changes along with the code
+ */
+export const getStaticProps = async () => {
+  return {
+    props: {
+      document: generateOpenApiDocument(appRouter, {
+        ...API_DOCUMENT,
+        baseUrl: new URL('/api/v1', env.APP_URL).toString(),
+      }),
+    },
+  };
+};
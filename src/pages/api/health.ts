@@ -0,0 +1,6 @@
+/**
+ * Liveness probe for load balancers, see `system.health`
+ */
+import { checkHealth, healthRoute } from '~/server/health';
+
+export default healthRoute(async () => checkHealth());
@@ -0,0 +1,6 @@
+/**
+ * Readiness probe for load balancers, answers `503` while the database or migrations aren't ready, see `system.ready`
+ */
+import { checkReadiness, healthRoute } from '~/server/health';
+
+export default healthRoute(() => checkReadiness());
@@ -2,10 +2,13 @@
  * This file contains tRPC's HTTP response handler
  */
 import * as trpcNext from '@trpc/server/adapters/next';
+import { cacheResponseMeta, withConditionalGet } from '~/server/cache';
 import { createContext } from '~/server/context';
+import { onProcedureError } from '~/server/errorReporter';
+import { withRetryAfter } from '~/server/rateLimit';
 import { appRouter } from '~/server/routers/_app';
 
-export default trpcNext.createNextApiHandler({
+const handler = trpcNext.createNextApiHandler({
   router: appRouter,
   /**
    * @see https://trpc.io/docs/v11/context
@@ -14,16 +17,13 @@ export default trpcNext.createNextApiHandler({
   /**
    * @see https://trpc.io/docs/v11/error-handling
    */
-  onError({ error }) {
-    if (error.code === 'INTERNAL_SERVER_ERROR') {
-      // send to bug reporting
-      console.error('Something went wrong', error);
-    }
-  },
+  onError: onProcedureError,
   /**
+   * Sets `Cache-Control` and `ETag` for queries marked with `cache` in their meta,
+   * and `Retry-After` when a call was rate limited
    * @see https://trpc.io/docs/v11/caching#api-response-caching
    */
-  // responseMeta() {
-  //   // ...
-  // },
+  responseMeta: withRetryAfter(cacheResponseMeta),
 });
+
+export default withConditionalGet(handler);
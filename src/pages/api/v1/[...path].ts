@@ -0,0 +1,16 @@
+/**
+ * REST endpoints for procedures with `openapi` in their meta, documented at `/api/v1/openapi.json`
+ */
+import { createContext } from '~/server/context';
+import { onProcedureError } from '~/server/errorReporter';
+import { API_DOCUMENT } from '~/server/openapi';
+import { createRestHandler } from '~/server/rest';
+import { appRouter } from '~/server/routers/_app';
+
+export default createRestHandler({
+  router: appRouter,
+  basePath: '/api/v1',
+  createContext,
+  onError: onProcedureError,
+  document: API_DOCUMENT,
+});
@@ -0,0 +1,155 @@
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { useState } from 'react';
+import { ErrorMessage } from '~/components/ErrorMessage';
+
+import type { NextPageWithLayout } from '~/pages/_app';
+import { trpc } from '~/utils/trpc';
+
+const inputClassName =
+  'focus-visible:outline-dashed outline-offset-4 outline-2 outline-gray-700 rounded-xl px-4 py-3 bg-gray-900';
+
+const SignInPage: NextPageWithLayout = () => {
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const [mode, setMode] = useState<'signIn' | 'signUp'>('signIn');
+
+  async function onSignedIn() {
+    await utils.auth.me.invalidate();
+    await router.push('/');
+  }
+
+  const signIn = trpc.auth.signIn.useMutation({ onSuccess: onSignedIn });
+  const signUp = trpc.auth.signUp.useMutation({ onSuccess: onSignedIn });
+  const requestMagicLink = trpc.auth.requestMagicLink.useMutation();
+  const passwordMutation = mode === 'signIn' ? signIn : signUp;
+
+  return (
+    <div className="flex flex-col bg-gray-800 py-8 px-8 items-center">
+      <Link className="text-gray-300 underline mb-4 self-start" href="/">
+        Home
+      </Link>
+      <h1 className="text-4xl font-bold pb-4">
+        {mode === 'signIn' ? 'Sign in' : 'Create an account'}
+      </h1>
+
+      <form
+        className="flex flex-col gap-y-4 py-2 w-4/6 font-semibold"
+        onSubmit={async (e) => {
+          e.preventDefault();
+          const values = Object.fromEntries(new FormData(e.currentTarget));
+          const input = {
+            email: values.email as string,
+            password: values.password as string,
+          };
+          try {
+            if (mode === 'signIn') {
+              await signIn.mutateAsync(input);
+            } else {
+              await signUp.mutateAsync({
+                ...input,
+                name: (values.name as string) || undefined,
+              });
+            }
+          } catch (cause) {
+            console.error({ cause }, 'Failed to sign in');
+          }
+        }}
+      >
+        {mode === 'signUp' && (
+          <input
+            className={inputClassName}
+            name="name"
+            type="text"
+            placeholder="Name (optional)"
+            disabled={passwordMutation.isPending}
+          />
+        )}
+        <input
+          className={inputClassName}
+          name="email"
+          type="email"
+          placeholder="Email"
+          required
+          disabled={passwordMutation.isPending}
+        />
+        <input
+          className={inputClassName}
+          name="password"
+          type="password"
+          placeholder="Password"
+          required
+          disabled={passwordMutation.isPending}
+        />
+        <div className="flex justify-center gap-x-4 items-center">
+          <button
+            className="cursor-pointer bg-gray-900 p-2 rounded-md px-16"
+            type="submit"
+            disabled={passwordMutation.isPending}
+          >
+            {mode === 'signIn' ? 'Sign in' : 'Sign up'}
+          </button>
+          <button
+            className="text-gray-400 underline"
+            type="button"
+            onClick={() => setMode(mode === 'signIn' ? 'signUp' : 'signIn')}
+          >
+            {mode === 'signIn'
+              ? 'No account yet? Sign up'
+              : 'Already have an account? Sign in'}
+          </button>
+        </div>
+        {passwordMutation.error && (
+          <ErrorMessage error={passwordMutation.error} />
+        )}
+      </form>
+
+      <hr className="my-8 w-4/6" />
+
+      <h2 className="text-2xl font-semibold pb-2">Or get a sign-in link</h2>
+      <form
+        className="flex flex-col gap-y-4 py-2 w-4/6 font-semibold"
+        onSubmit={async (e) => {
+          e.preventDefault();
+          const values = Object.fromEntries(new FormData(e.currentTarget));
+          try {
+            await requestMagicLink.mutateAsync({
+              email: values.email as string,
+            });
+          } catch (cause) {
+            console.error({ cause }, 'Failed to request a sign-in link');
+          }
+        }}
+      >
+        <input
+          className={inputClassName}
+          name="email"
+          type="email"
+          placeholder="Email"
+          required
+          disabled={requestMagicLink.isPending}
+        />
+        <div className="flex justify-center">
+          <button
+            className="cursor-pointer bg-gray-900 p-2 rounded-md px-16"
+            type="submit"
+            disabled={requestMagicLink.isPending}
+          >
+            Email me a link
+          </button>
+        </div>
+        {requestMagicLink.isSuccess && (
+          <p className="text-gray-400">
+            Check your inbox, the link expires in 15 minutes. Without a mail
+            provider configured, it is printed to the server console.
+          </p>
+        )}
+        {requestMagicLink.error && (
+          <ErrorMessage error={requestMagicLink.error} />
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default SignInPage;
@@ -0,0 +1,45 @@
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { useEffect, useRef } from 'react';
+
+import type { NextPageWithLayout } from '~/pages/_app';
+import { trpc } from '~/utils/trpc';
+
+const VerifyMagicLinkPage: NextPageWithLayout = () => {
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const token = router.query.token;
+  const verify = trpc.auth.verifyMagicLink.useMutation({
+    async onSuccess() {
+      await utils.auth.me.invalidate();
+      await router.replace('/');
+    },
+  });
+  const { mutate } = verify;
+  const verifiedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    // tokens are single use, so only fire once per token, even when strict mode re-runs effects
+    if (typeof token === 'string' && verifiedToken.current !== token) {
+      verifiedToken.current = token;
+      mutate({ token });
+    }
+  }, [token, mutate]);
+
+  return (
+    <div className="flex flex-col justify-center h-full px-8 items-center">
+      {verify.error ? (
+        <>
+          <p style={{ color: 'red' }}>{verify.error.message}</p>
+          <Link className="text-gray-300 underline" href="/auth/signin">
+            Back to sign in
+          </Link>
+        </>
+      ) : (
+        <p className="text-gray-400 animate-pulse">Signing you in…</p>
+      )}
+    </div>
+  );
+};
+
+export default VerifyMagicLinkPage;
@@ -0,0 +1,63 @@
+import Link from 'next/link';
+
+import type { NextPageWithLayout } from '~/pages/_app';
+import { postStatusLabels } from '~/utils/postStatus';
+import { trpc } from '~/utils/trpc';
+
+const DraftsPage: NextPageWithLayout = () => {
+  const meQuery = trpc.auth.me.useQuery();
+  const draftsQuery = trpc.post.drafts.useQuery(undefined, {
+    enabled: !!meQuery.data,
+  });
+
+  return (
+    <div className="flex flex-col bg-gray-800 py-8 px-8">
+      <Link className="text-gray-300 underline mb-4" href="/">
+        Home
+      </Link>
+      <h1 className="text-4xl font-bold pb-4">
+        My drafts
+        {draftsQuery.isLoading && '(loading)'}
+      </h1>
+
+      {meQuery.data === null && (
+        <p className="text-gray-400">
+          <Link className="underline" href="/auth/signin">
+            Sign in
+          </Link>{' '}
+          to see your drafts.
+        </p>
+      )}
+      {draftsQuery.error && (
+        <p style={{ color: 'red' }}>{draftsQuery.error.message}</p>
+      )}
+      {draftsQuery.data?.items.length === 0 && (
+        <p className="text-gray-400">
+          Drafts, scheduled and archived posts show up here.
+        </p>
+      )}
+
+      <ul className="flex flex-col gap-y-4">
+        {draftsQuery.data?.items.map((item) => (
+          <li key={item.id}>
+            <Link
+              className="text-xl font-semibold underline"
+              href={`/post/${item.slug}`}
+            >
+              {item.title}
+            </Link>
+            <p className="text-gray-400">
+              {postStatusLabels[item.status]}
+              {item.status === 'scheduled' &&
+                item.publishAt &&
+                `, goes live ${item.publishAt.toLocaleString('en-us')}`}
+              {' · '}edited {item.updatedAt.toLocaleDateString('en-us')}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DraftsPage;
@@ -2,19 +2,144 @@ import { trpc } from '../utils/trpc';
 import type { NextPageWithLayout } from './_app';
 import type { inferProcedureInput } from '@trpc/server';
 import Link from 'next/link';
-import { Fragment } from 'react';
+import { useRouter } from 'next/router';
+import { Fragment, useDeferredValue, useEffect, useState } from 'react';
+import { AuthStatus } from '~/components/AuthStatus';
+import { ErrorMessage } from '~/components/ErrorMessage';
+import { FormInput } from '~/components/FormInput';
+import { PostStatusFields } from '~/components/PostStatusFields';
+import { TagChips } from '~/components/TagChips';
 import type { AppRouter } from '~/server/routers/_app';
+import { fieldErrorsOf } from '~/utils/fieldErrors';
+import { parsePostStatusInput } from '~/utils/postStatus';
+import { parseTagInput } from '~/utils/tags';
+import type { RouterOutput } from '~/utils/trpc';
+
+type HighlightSegments =
+  RouterOutput['post']['search']['items'][number]['textHighlights'];
+
+function Highlights(props: { segments: HighlightSegments }) {
+  return props.segments.map((segment, index) =>
+    segment.highlight ? (
+      <mark key={index} className="bg-yellow-300 text-gray-900">
+        {segment.text}
+      </mark>
+    ) : (
+      <Fragment key={index}>{segment.text}</Fragment>
+    ),
+  );
+}
+
+function MarkdownPreview(props: { text: string }) {
+  // keeps typing responsive, the preview catches up with the latest text
+  const text = useDeferredValue(props.text);
+  const [html, setHtml] = useState('');
+  const preview = trpc.post.preview.useMutation();
+  const { mutate } = preview;
+
+  useEffect(() => {
+    if (text) {
+      // only the latest call runs `onSuccess`, so slow responses can't overwrite newer ones
+      mutate({ text }, { onSuccess: (data) => setHtml(data.html) });
+    }
+  }, [text, mutate]);
+
+  if (!text) {
+    return <p className="text-gray-400 px-4 py-3">Nothing to preview</p>;
+  }
+  if (preview.error) {
+    return <p style={{ color: 'red' }}>{preview.error.message}</p>;
+  }
+  return (
+    <div
+      className="markdown min-h-40 rounded-xl px-4 py-3 bg-gray-900 font-normal"
+      // sanitized on the server, see `src/server/markdown.ts`
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
+
+function SearchResults(props: { query: string }) {
+  const searchQuery = trpc.post.search.useInfiniteQuery(
+    {
+      query: props.query,
+      limit: 5,
+    },
+    {
+      getNextPageParam(lastPage) {
+        return lastPage.nextCursor;
+      },
+    },
+  );
+
+  if (searchQuery.status === 'pending') {
+    return <p className="text-gray-400">Searching...</p>;
+  }
+  if (searchQuery.status === 'error') {
+    return <p style={{ color: 'red' }}>{searchQuery.error.message}</p>;
+  }
+  if (searchQuery.data.pages[0]?.items.length === 0) {
+    return <p className="text-gray-400">No posts match "{props.query}"</p>;
+  }
+
+  return (
+    <>
+      {searchQuery.data.pages.map((page, index) => (
+        <Fragment key={page.items[0]?.id || index}>
+          {page.items.map((item) => (
+            <article key={item.id}>
+              <h3 className="text-2xl font-semibold">
+                <Highlights segments={item.titleHighlights} />
+              </h3>
+              <p className="text-gray-300 break-all">
+                <Highlights segments={item.textHighlights} />
+              </p>
+              <Link className="text-gray-400" href={`/post/${item.slug}`}>
+                View more
+              </Link>
+            </article>
+          ))}
+        </Fragment>
+      ))}
+      {searchQuery.hasNextPage && (
+        <button
+          className="bg-gray-900 p-2 rounded-md font-semibold disabled:bg-gray-700 disabled:text-gray-400"
+          onClick={() => searchQuery.fetchNextPage()}
+          disabled={searchQuery.isFetchingNextPage}
+        >
+          {searchQuery.isFetchingNextPage ? 'Loading more...' : 'More results'}
+        </button>
+      )}
+    </>
+  );
+}
 
 const IndexPage: NextPageWithLayout = () => {
   const utils = trpc.useUtils();
+  const meQuery = trpc.auth.me.useQuery();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [draftText, setDraftText] = useState('');
+  const [draftTab, setDraftTab] = useState<'write' | 'preview'>('write');
+  const router = useRouter();
+  // deep links like `/?cursor=...` start the list in the middle
+  const initialCursor =
+    typeof router.query.cursor === 'string' ? router.query.cursor : undefined;
+  // tag chips link to `/?tag=...`
+  const tag = typeof router.query.tag === 'string' ? router.query.tag : null;
   const postsQuery = trpc.post.list.useInfiniteQuery(
     {
       limit: 5,
+      filter: tag ? { tags: [tag] } : undefined,
     },
     {
+      enabled: router.isReady,
+      initialCursor,
       getNextPageParam(lastPage) {
         return lastPage.nextCursor;
       },
+      getPreviousPageParam(firstPage) {
+        return firstPage.previousCursor;
+      },
     },
   );
 
@@ -22,6 +147,22 @@ const IndexPage: NextPageWithLayout = () => {
     async onSuccess() {
       // refetches posts after a post is added
       await utils.post.list.invalidate();
+      await utils.post.drafts.invalidate();
+    },
+  });
+
+  // validation issues from the server, shown next to the inputs they are about
+  const addPostErrors = fieldErrorsOf(addPost.error?.data?.zodError);
+
+  // posts added or edited in other tabs, or by other people, show up without a reload
+  trpc.post.onAdd.useSubscription(undefined, {
+    onData() {
+      void utils.post.list.invalidate();
+    },
+  });
+  trpc.post.onChange.useSubscription(undefined, {
+    onData() {
+      void utils.post.list.invalidate();
     },
   });
 
@@ -35,6 +176,9 @@ const IndexPage: NextPageWithLayout = () => {
 
   return (
     <div className="flex flex-col bg-gray-800 py-8">
+      <div className="flex justify-end">
+        <AuthStatus />
+      </div>
       <h1 className="text-4xl font-bold">
         Welcome to your tRPC with Prisma starter!
       </h1>
@@ -74,12 +218,79 @@ const IndexPage: NextPageWithLayout = () => {
 
       <hr className="my-4" />
 
+      <div className="flex flex-col py-8 items-start gap-y-2">
+        <h2 className="text-3xl font-semibold">Search Posts</h2>
+        <form
+          className="flex gap-x-2 w-4/6"
+          onSubmit={(e) => {
+            e.preventDefault();
+            const values = Object.fromEntries(new FormData(e.currentTarget));
+            setSearchQuery((values.query as string).trim());
+          }}
+        >
+          <input
+            className="flex-1 focus-visible:outline-dashed outline-offset-4 outline-2 outline-gray-700 rounded-xl px-4 py-3 bg-gray-900"
+            name="query"
+            type="search"
+            placeholder="Search titles and text"
+          />
+          <button className="bg-gray-900 p-2 rounded-md font-semibold px-8">
+            Search
+          </button>
+        </form>
+        {searchQuery && <SearchResults query={searchQuery} />}
+      </div>
+
+      <hr className="my-4" />
+
       <div className="flex flex-col py-8 items-start gap-y-2">
         <div className="flex flex-col"></div>
         <h2 className="text-3xl font-semibold">
           Latest Posts
+          {tag && ` tagged #${tag}`}
           {postsQuery.status === 'pending' && '(loading)'}
         </h2>
+        <p className="text-gray-400">
+          {tag && (
+            <>
+              <Link className="underline" href="/">
+                Show all posts
+              </Link>
+              {' · '}
+            </>
+          )}
+          <Link className="underline" href="/tags">
+            Browse tags
+          </Link>
+          {' · '}
+          <Link className="underline" href="/api-reference">
+            REST API
+          </Link>
+          {meQuery.data && (
+            <>
+              {' · '}
+              <Link className="underline" href="/drafts">
+                My drafts
+              </Link>
+              {' · '}
+              <Link className="underline" href="/trash">
+                Trash
+              </Link>
+            </>
+          )}
+        </p>
+
+        {postsQuery.hasPreviousPage && (
+          <button
+            className="bg-gray-900 p-2 rounded-md font-semibold disabled:bg-gray-700 disabled:text-gray-400"
+            onClick={() => postsQuery.fetchPreviousPage()}
+            disabled={postsQuery.isFetchingPreviousPage}
+          >
+            {postsQuery.isFetchingPreviousPage
+              ? 'Loading newer...'
+              : 'Load newer posts'}
+          </button>
+        )}
 
         <button
           className="bg-gray-900 p-2 rounded-md font-semibold disabled:bg-gray-700 disabled:text-gray-400"
@@ -98,7 +309,11 @@ const IndexPage: NextPageWithLayout = () => {
             {page.items.map((item) => (
               <article key={item.id}>
                 <h3 className="text-2xl font-semibold">{item.title}</h3>
-                <Link className="text-gray-400" href={`/post/${item.id}`}>
+                <p className="text-gray-400 text-sm">
+                  by {item.author?.name ?? 'Anonymous'}
+                </p>
+                <TagChips tags={item.tags} className="py-1" />
+                <Link className="text-gray-400" href={`/post/${item.slug}`}>
                   View more
                 </Link>
               </article>
@@ -112,63 +327,114 @@ const IndexPage: NextPageWithLayout = () => {
       <div className="flex flex-col py-8 items-center">
         <h2 className="text-3xl font-semibold pb-2">Add a Post</h2>
 
-        <form
-          className="py-2 w-4/6"
-          onSubmit={async (e) => {
-            /**
-             * In a real app you probably don't want to use this manually
-             * Checkout React Hook Form - it works great with tRPC
-             * @see https://react-hook-form.com/
-             * @see https://kitchen-sink.trpc.io/react-hook-form
-             */
-            e.preventDefault();
-            const $form = e.currentTarget;
-            const values = Object.fromEntries(new FormData($form));
-            type Input = inferProcedureInput<AppRouter['post']['add']>;
-            //    ^?
-            const input: Input = {
-              title: values.title as string,
-              text: values.text as string,
-            };
-            try {
-              await addPost.mutateAsync(input);
-
-              $form.reset();
-            } catch (cause) {
-              console.error({ cause }, 'Failed to add post');
-            }
-          }}
-        >
-          <div className="flex flex-col gap-y-4 font-semibold">
-            <input
-              className="focus-visible:outline-dashed outline-offset-4 outline-2 outline-gray-700 rounded-xl px-4 py-3 bg-gray-900"
-              id="title"
-              name="title"
-              type="text"
-              placeholder="Title"
-              disabled={addPost.isPending}
-            />
-            <textarea
-              className="resize-none focus-visible:outline-dashed outline-offset-4 outline-2 outline-gray-700 rounded-xl px-4 py-3 bg-gray-900"
-              id="text"
-              name="text"
-              placeholder="Text"
-              disabled={addPost.isPending}
-              rows={6}
-            />
-
-            <div className="flex justify-center">
-              <input
-                className="cursor-pointer bg-gray-900 p-2 rounded-md px-16"
-                type="submit"
+        {meQuery.data === null && (
+          <p className="text-gray-400">
+            <Link className="underline" href="/auth/signin">
+              Sign in
+            </Link>{' '}
+            to add a post.
+          </p>
+        )}
+
+        {meQuery.data && (
+          <form
+            className="py-2 w-4/6"
+            onSubmit={async (e) => {
+              /**
+               * In a real app you probably don't want to use this manually
+               * Checkout React Hook Form - it works great with tRPC
+               * @see https://react-hook-form.com/
+               * @see https://kitchen-sink.trpc.io/react-hook-form
+               */
+              e.preventDefault();
+              const $form = e.currentTarget;
+              const values = Object.fromEntries(new FormData($form));
+              type Input = inferProcedureInput<AppRouter['post']['add']>;
+              //    ^?
+              const input: Input = {
+                title: values.title as string,
+                text: values.text as string,
+                tags: parseTagInput(values.tags as string),
+                ...parsePostStatusInput(values),
+              };
+              try {
+                await addPost.mutateAsync(input);
+
+                $form.reset();
+                setDraftText('');
+                setDraftTab('write');
+              } catch (cause) {
+                console.error({ cause }, 'Failed to add post');
+              }
+            }}
+          >
+            <div className="flex flex-col gap-y-4 font-semibold">
+              <FormInput
+                className="w-full focus-visible:outline-dashed outline-offset-4 outline-2 outline-gray-700 rounded-xl px-4 py-3 bg-gray-900"
+                name="title"
+                placeholder="Title"
                 disabled={addPost.isPending}
+                error={addPostErrors.title}
               />
-              {addPost.error && (
-                <p style={{ color: 'red' }}>{addPost.error.message}</p>
+              <div className="flex gap-x-2" role="tablist">
+                {(['write', 'preview'] as const).map((tab) => (
+                  <button
+                    key={tab}
+                    type="button"
+                    role="tab"
+                    aria-selected={draftTab === tab}
+                    className={`p-2 rounded-md px-6 capitalize ${draftTab === tab ? 'bg-gray-900' : 'text-gray-400'}`}
+                    onClick={() => setDraftTab(tab)}
+                  >
+                    {tab}
+                  </button>
+                ))}
+              </div>
+              {/* stays mounted while previewing so the form still submits the text */}
+              <textarea
+                className={`resize-none focus-visible:outline-dashed outline-offset-4 outline-2 outline-gray-700 rounded-xl px-4 py-3 bg-gray-900 ${draftTab === 'preview' ? 'hidden' : ''}`}
+                id="text"
+                name="text"
+                placeholder="Text, Markdown is supported"
+                disabled={addPost.isPending}
+                rows={6}
+                onChange={(e) => setDraftText(e.currentTarget.value)}
+                aria-invalid={addPostErrors.text ? true : undefined}
+              />
+              {addPostErrors.text && (
+                <p className="-mt-3 text-sm text-red-600">
+                  {addPostErrors.text}
+                </p>
               )}
+              {draftTab === 'preview' && <MarkdownPreview text={draftText} />}
+              <FormInput
+                className="w-full focus-visible:outline-dashed outline-offset-4 outline-2 outline-gray-700 rounded-xl px-4 py-3 bg-gray-900"
+                name="tags"
+                placeholder="Tags, separated by commas"
+                disabled={addPost.isPending}
+                error={addPostErrors.tags}
+              />
+              <PostStatusFields
+                disabled={addPost.isPending}
+                publishAtError={addPostErrors.publishAt}
+              />
+
+              <div className="flex justify-center">
+                <input
+                  className="cursor-pointer bg-gray-900 p-2 rounded-md px-16"
+                  type="submit"
+                  disabled={addPost.isPending}
+                />
+                {addPost.error && (
+                  <ErrorMessage
+                    error={addPost.error}
+                    invalidInputMessage="Please fix the fields marked above"
+                  />
+                )}
+              </div>
             </div>
-          </div>
-        </form>
+          </form>
+        )}
       </div>
     </div>
   );
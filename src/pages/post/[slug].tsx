@@ -0,0 +1,311 @@
+import type { GetStaticPaths, GetStaticPropsContext } from 'next';
+import NextError from 'next/error';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { useEffect, useState } from 'react';
+
+import { CommentSection } from '~/components/CommentSection';
+import { PostStatusFields } from '~/components/PostStatusFields';
+import { TagChips } from '~/components/TagChips';
+import type { NextPageWithLayout } from '~/pages/_app';
+import { createStaticHelpers, isNotFoundError } from '~/server/ssg';
+import { findPostIdBySlug } from '~/server/slug';
+import type { PostWithHtmlDTO } from '~/utils/postDTO';
+import { parsePostStatusInput, postStatusLabels } from '~/utils/postStatus';
+import { parseTagInput } from '~/utils/tags';
+import { trpc } from '~/utils/trpc';
+
+function PostEditForm(props: { post: PostWithHtmlDTO; onDone: () => void }) {
+  const { post, onDone } = props;
+  const utils = trpc.useUtils();
+  const updatePost = trpc.post.update.useMutation({
+    async onSuccess(updated) {
+      // a new title may come with a new slug, the page then redirects to it
+      utils.post.bySlug.setData({ slug: post.slug }, updated);
+      utils.post.bySlug.setData({ slug: updated.slug }, updated);
+      await utils.post.revisions.invalidate({ postId: updated.id });
+      await utils.post.list.invalidate();
+      await utils.post.drafts.invalidate();
+      onDone();
+    },
+  });
+
+  return (
+    <form
+      className="flex flex-col gap-y-4 py-4 font-semibold"
+      onSubmit={async (e) => {
+        e.preventDefault();
+        const values = Object.fromEntries(new FormData(e.currentTarget));
+        const { status, publishAt } = parsePostStatusInput(values);
+        try {
+          await updatePost.mutateAsync({
+            id: post.id,
+            updatedAt: post.updatedAt,
+            data: {
+              title: values.title as string,
+              text: values.text as string,
+              tags: parseTagInput(values.tags as string),
+              status,
+              // keeps the original publish date when saving a published post
+              publishAt: status === 'published' ? post.publishAt : publishAt,
+            },
+          });
+        } catch (cause) {
+          console.error({ cause }, 'Failed to update post');
+        }
+      }}
+    >
+      <input
+        className="focus-visible:outline-dashed outline-offset-4 outline-2 outline-gray-700 rounded-xl px-4 py-3 bg-gray-900"
+        name="title"
+        type="text"
+        defaultValue={post.title}
+        disabled={updatePost.isPending}
+      />
+      <textarea
+        className="resize-none focus-visible:outline-dashed outline-offset-4 outline-2 outline-gray-700 rounded-xl px-4 py-3 bg-gray-900"
+        name="text"
+        defaultValue={post.text}
+        disabled={updatePost.isPending}
+        rows={6}
+      />
+      <input
+        className="focus-visible:outline-dashed outline-offset-4 outline-2 outline-gray-700 rounded-xl px-4 py-3 bg-gray-900"
+        name="tags"
+        type="text"
+        placeholder="Tags, separated by commas"
+        defaultValue={post.tags.map((tag) => tag.name).join(', ')}
+        disabled={updatePost.isPending}
+      />
+      <PostStatusFields
+        defaultStatus={post.status}
+        defaultPublishAt={post.publishAt}
+        disabled={updatePost.isPending}
+      />
+      <div className="flex gap-x-2">
+        <button
+          className="bg-gray-900 p-2 rounded-md px-8"
+          type="submit"
+          disabled={updatePost.isPending}
+        >
+          Save
+        </button>
+        <button
+          className="p-2 rounded-md px-8 text-gray-400"
+          type="button"
+          onClick={onDone}
+          disabled={updatePost.isPending}
+        >
+          Cancel
+        </button>
+      </div>
+      {updatePost.error && (
+        <p style={{ color: 'red' }}>
+          {updatePost.error.message}
+          {updatePost.error.data?.code === 'CONFLICT' && (
+            <button
+              className="underline ml-2"
+              type="button"
+              onClick={() => utils.post.bySlug.invalidate({ slug: post.slug })}
+            >
+              Reload
+            </button>
+          )}
+        </p>
+      )}
+    </form>
+  );
+}
+
+function PostItem(props: { post: PostWithHtmlDTO }) {
+  const { post } = props;
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const meQuery = trpc.auth.me.useQuery();
+  const [isEditing, setIsEditing] = useState(false);
+  const isAuthor = !!post.author && meQuery.data?.id === post.author.id;
+  const deletePost = trpc.post.delete.useMutation({
+    async onSuccess() {
+      await utils.post.list.invalidate();
+      await utils.post.drafts.invalidate();
+      await utils.post.trash.invalidate();
+      await router.push('/');
+    },
+  });
+  // edits made elsewhere show up live, an open edit form keeps its copy and gets a conflict on save
+  trpc.post.onChange.useSubscription(
+    { id: post.id },
+    {
+      onData(event) {
+        if (event.post) {
+          utils.post.bySlug.setData({ slug: post.slug }, event.post);
+        } else {
+          void utils.post.bySlug.invalidate({ slug: post.slug });
+        }
+      },
+    },
+  );
+
+  return (
+    <div className="flex flex-col justify-center h-full px-8 ">
+      <Link className="text-gray-300 underline mb-4" href="/">
+        Home
+      </Link>
+      {isEditing ? (
+        // keyed on the version so a reload after a conflict resets the form
+        <PostEditForm
+          key={post.updatedAt.getTime()}
+          post={post}
+          onDone={() => setIsEditing(false)}
+        />
+      ) : (
+        <>
+          <h1 className="text-4xl font-bold">{post.title}</h1>
+          <em className="text-gray-400">
+            Created {post.createdAt.toLocaleDateString('en-us')} by{' '}
+            {post.author?.name ?? 'Anonymous'}
+            {' · '}
+            <Link className="underline" href={`/post/${post.slug}/history`}>
+              History
+            </Link>
+          </em>
+          {post.status !== 'published' && (
+            <p className="text-yellow-300">
+              {postStatusLabels[post.status]}
+              {post.status === 'scheduled' &&
+                post.publishAt &&
+                `, goes live ${post.publishAt.toLocaleString('en-us')}`}
+            </p>
+          )}
+          <TagChips tags={post.tags} className="pt-2" />
+
+          <div
+            className="markdown py-4"
+            // sanitized on the server, see `src/server/markdown.ts`
+            dangerouslySetInnerHTML={{ __html: post.html }}
+          />
+
+          {isAuthor && (
+            <div className="flex gap-x-2">
+              <button
+                className="bg-gray-900 p-2 rounded-md font-semibold px-8"
+                onClick={() => setIsEditing(true)}
+              >
+                Edit
+              </button>
+              <button
+                className="bg-gray-900 p-2 rounded-md font-semibold px-8 text-red-400 disabled:text-gray-400"
+                disabled={deletePost.isPending}
+                onClick={() => {
+                  if (window.confirm(`Move "${post.title}" to the trash?`)) {
+                    deletePost.mutate({
+                      id: post.id,
+                      updatedAt: post.updatedAt,
+                    });
+                  }
+                }}
+              >
+                {deletePost.isPending ? 'Deleting...' : 'Delete'}
+              </button>
+            </div>
+          )}
+          {deletePost.error && (
+            <p style={{ color: 'red' }}>{deletePost.error.message}</p>
+          )}
+        </>
+      )}
+
+      <CommentSection postId={post.id} />
+
+      <h2 className="text-2xl font-semibold py-2">Raw data:</h2>
+      <pre className="bg-gray-900 p-4 rounded-xl overflow-x-scroll">
+        {JSON.stringify(post, null, 4)}
+      </pre>
+    </div>
+  );
+}
+
+const PostViewPage: NextPageWithLayout = () => {
+  const router = useRouter();
+  const slug = router.query.slug as string;
+  const postQuery = trpc.post.bySlug.useQuery({ slug });
+  const canonicalSlug = postQuery.data?.slug;
+
+  // old slugs and legacy `/post/<id>` links move to the current URL
+  useEffect(() => {
+    if (canonicalSlug && canonicalSlug !== slug) {
+      void router.replace(`/post/${canonicalSlug}`);
+    }
+  }, [canonicalSlug, slug, router]);
+
+  if (postQuery.error) {
+    return (
+      <NextError
+        title={postQuery.error.message}
+        statusCode={postQuery.error.data?.httpStatus ?? 500}
+      />
+    );
+  }
+
+  if (postQuery.status !== 'success') {
+    return (
+      <div className="flex flex-col justify-center h-full px-8 ">
+        <div className="w-full bg-zinc-900/70 rounded-md h-10 animate-pulse mb-2"></div>
+        <div className="w-2/6 bg-zinc-900/70 rounded-md h-5 animate-pulse mb-8"></div>
+
+        <div className="w-full bg-zinc-900/70 rounded-md h-40 animate-pulse"></div>
+      </div>
+    );
+  }
+  const { data } = postQuery;
+  return <PostItem post={data} />;
+};
+
+export default PostViewPage;
+
+/**
+ * Post pages are rendered on their first visit, then regenerated at most this often
+ * @see https://nextjs.org/docs/pages/guides/incremental-static-regeneration
+ */
+const REVALIDATE_SECONDS = 60;
+
+export const getStaticPaths: GetStaticPaths = async () => {
+  return {
+    paths: [],
+    fallback: 'blocking',
+  };
+};
+
+export const getStaticProps = async (
+  context: GetStaticPropsContext<{ slug: string }>,
+) => {
+  const slug = context.params?.slug ?? '';
+  const helpers = await createStaticHelpers();
+
+  try {
+    const post = await helpers.post.bySlug.fetch({ slug });
+    if (post.slug !== slug) {
+      // old slugs and legacy `/post/<id>` links
+      return {
+        redirect: { destination: `/post/${post.slug}`, permanent: false },
+        revalidate: REVALIDATE_SECONDS,
+      };
+    }
+    await helpers.comment.list.prefetchInfinite({ postId: post.id });
+  } catch (error) {
+    if (!isNotFoundError(error)) {
+      throw error;
+    }
+    // unpublished posts are only visible to their author, so they are rendered in the browser with the session
+    if (!(await findPostIdBySlug(slug))) {
+      return { notFound: true, revalidate: REVALIDATE_SECONDS };
+    }
+  }
+
+  return {
+    props: {
+      trpcState: helpers.dehydrate(),
+    },
+    revalidate: REVALIDATE_SECONDS,
+  };
+};
@@ -0,0 +1,251 @@
+import type { GetServerSidePropsContext } from 'next';
+import NextError from 'next/error';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { useState } from 'react';
+
+import type { NextPageWithLayout } from '~/pages/_app';
+import { createRequestHelpers, isNotFoundError } from '~/server/ssg';
+import type { DiffCell } from '~/utils/diff';
+import { sideBySideDiff } from '~/utils/diff';
+import type { PostWithHtmlDTO } from '~/utils/postDTO';
+import { trpc } from '~/utils/trpc';
+
+function DiffCellView(props: { cell: DiffCell; side: 'before' | 'after' }) {
+  const { cell, side } = props;
+  if (!cell) {
+    return <td className="bg-gray-900/50" />;
+  }
+  const changedClass = side === 'before' ? 'bg-red-900/60' : 'bg-green-900/60';
+  return (
+    <td
+      className={`whitespace-pre-wrap break-all px-2 align-top ${cell.changed ? changedClass : ''}`}
+    >
+      {cell.text}
+    </td>
+  );
+}
+
+function SideBySideDiff(props: { before: string; after: string }) {
+  const rows = sideBySideDiff(props.before, props.after);
+  return (
+    <table className="w-full table-fixed font-mono text-sm">
+      <tbody>
+        {rows.map((row, index) => (
+          <tr key={index}>
+            <DiffCellView cell={row.before} side="before" />
+            <DiffCellView cell={row.after} side="after" />
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function PostHistory(props: { post: PostWithHtmlDTO }) {
+  const { post } = props;
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const meQuery = trpc.auth.me.useQuery();
+  const revisionsQuery = trpc.post.revisions.useInfiniteQuery(
+    { postId: post.id, limit: 20 },
+    {
+      getNextPageParam(lastPage) {
+        return lastPage.nextCursor;
+      },
+    },
+  );
+  // the revision being compared with the version that replaced it
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const restoreRevision = trpc.post.restoreRevision.useMutation({
+    async onSuccess(restored) {
+      utils.post.bySlug.setData({ slug: post.slug }, restored);
+      utils.post.bySlug.setData({ slug: restored.slug }, restored);
+      setSelectedId(null);
+      await utils.post.revisions.invalidate({ postId: restored.id });
+      await utils.post.list.invalidate();
+      if (restored.slug !== post.slug) {
+        await router.replace(`/post/${restored.slug}/history`);
+      }
+    },
+  });
+
+  if (revisionsQuery.error) {
+    return <p style={{ color: 'red' }}>{revisionsQuery.error.message}</p>;
+  }
+  if (revisionsQuery.status !== 'success') {
+    return (
+      <div className="w-full bg-zinc-900/70 rounded-md h-40 animate-pulse"></div>
+    );
+  }
+
+  const revisions = revisionsQuery.data.pages.flatMap((page) => page.items);
+  const isAuthor = !!post.author && meQuery.data?.id === post.author.id;
+  const selectedIndex = Math.max(
+    0,
+    revisions.findIndex((revision) => revision.id === selectedId),
+  );
+  const selected = revisions[selectedIndex];
+  // revisions are newest first, the version after a revision is the one before it in the list
+  const next = selectedIndex > 0 ? revisions[selectedIndex - 1] : null;
+
+  return (
+    <>
+      {revisions.length === 0 && (
+        <p className="text-gray-400">This post has never been edited.</p>
+      )}
+
+      {selected && (
+        <div className="flex gap-x-8">
+          <ul className="flex flex-col gap-y-2 w-1/4 shrink-0">
+            {revisions.map((revision) => (
+              <li key={revision.id}>
+                <button
+                  className={`text-left p-2 rounded-md w-full ${revision.id === selected.id ? 'bg-gray-900' : 'text-gray-400'}`}
+                  onClick={() => setSelectedId(revision.id)}
+                >
+                  <span className="font-semibold">{revision.title}</span>
+                  <br />
+                  <em className="text-xs">
+                    Saved {revision.savedAt.toLocaleString('en-us')}
+                  </em>
+                </button>
+              </li>
+            ))}
+            {revisionsQuery.hasNextPage && (
+              <li>
+                <button
+                  className="p-2 text-gray-400 underline"
+                  onClick={() => revisionsQuery.fetchNextPage()}
+                  disabled={revisionsQuery.isFetchingNextPage}
+                >
+                  {revisionsQuery.isFetchingNextPage
+                    ? 'Loading...'
+                    : 'Load older revisions'}
+                </button>
+              </li>
+            )}
+          </ul>
+
+          <div className="flex flex-col gap-y-4 grow min-w-0">
+            <div className="flex justify-between text-gray-400">
+              <span>Saved {selected.savedAt.toLocaleString('en-us')}</span>
+              <span>
+                {next
+                  ? `Saved ${next.savedAt.toLocaleString('en-us')}`
+                  : 'Current version'}
+              </span>
+            </div>
+            <SideBySideDiff
+              before={selected.title}
+              after={(next ?? post).title}
+            />
+            <SideBySideDiff
+              before={selected.text}
+              after={(next ?? post).text}
+            />
+
+            {isAuthor && (
+              <div>
+                <button
+                  className="bg-gray-900 p-2 rounded-md font-semibold px-8"
+                  disabled={restoreRevision.isPending}
+                  onClick={() =>
+                    restoreRevision.mutate({
+                      revisionId: selected.id,
+                      updatedAt: post.updatedAt,
+                    })
+                  }
+                >
+                  {restoreRevision.isPending
+                    ? 'Restoring...'
+                    : 'Restore this version'}
+                </button>
+                {restoreRevision.error && (
+                  <p style={{ color: 'red' }}>
+                    {restoreRevision.error.message}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+const PostHistoryPage: NextPageWithLayout = () => {
+  const slug = useRouter().query.slug as string;
+  const postQuery = trpc.post.bySlug.useQuery({ slug });
+
+  if (postQuery.error) {
+    return (
+      <NextError
+        title={postQuery.error.message}
+        statusCode={postQuery.error.data?.httpStatus ?? 500}
+      />
+    );
+  }
+  if (postQuery.status !== 'success') {
+    return (
+      <div className="flex flex-col justify-center h-full px-8 ">
+        <div className="w-full bg-zinc-900/70 rounded-md h-10 animate-pulse mb-8"></div>
+        <div className="w-full bg-zinc-900/70 rounded-md h-40 animate-pulse"></div>
+      </div>
+    );
+  }
+
+  const post = postQuery.data;
+  return (
+    <div className="flex flex-col justify-center h-full px-8 ">
+      <Link
+        className="text-gray-300 underline mb-4"
+        href={`/post/${post.slug}`}
+      >
+        Back to post
+      </Link>
+      <h1 className="text-4xl font-bold pb-4">History of {post.title}</h1>
+      <PostHistory post={post} />
+    </div>
+  );
+};
+
+export default PostHistoryPage;
+
+/**
+ * Rendered per request, the history of unpublished posts is only visible to their author
+ */
+export const getServerSideProps = async (
+  context: GetServerSidePropsContext<{ slug: string }>,
+) => {
+  const slug = context.params?.slug ?? '';
+  const helpers = await createRequestHelpers(context);
+
+  try {
+    const post = await helpers.post.bySlug.fetch({ slug });
+    if (post.slug !== slug) {
+      return {
+        redirect: {
+          destination: `/post/${post.slug}/history`,
+          permanent: false,
+        },
+      };
+    }
+    await Promise.all([
+      helpers.auth.me.prefetch(),
+      helpers.post.revisions.prefetchInfinite({ postId: post.id, limit: 20 }),
+    ]);
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return { notFound: true };
+    }
+    throw error;
+  }
+
+  return {
+    props: {
+      trpcState: helpers.dehydrate(),
+    },
+  };
+};
@@ -0,0 +1,45 @@
+import Link from 'next/link';
+
+import type { NextPageWithLayout } from '~/pages/_app';
+import { trpc } from '~/utils/trpc';
+
+const TagsPage: NextPageWithLayout = () => {
+  const tagsQuery = trpc.tag.list.useQuery();
+
+  return (
+    <div className="flex flex-col bg-gray-800 py-8 px-8">
+      <Link className="text-gray-300 underline mb-4" href="/">
+        Home
+      </Link>
+      <h1 className="text-4xl font-bold pb-4">
+        Tags
+        {tagsQuery.status === 'pending' && '(loading)'}
+      </h1>
+
+      {tagsQuery.error && (
+        <p style={{ color: 'red' }}>{tagsQuery.error.message}</p>
+      )}
+      {tagsQuery.data?.length === 0 && (
+        <p className="text-gray-400">No posts have been tagged yet.</p>
+      )}
+
+      <ul className="flex flex-col gap-y-2">
+        {tagsQuery.data?.map((tag) => (
+          <li key={tag.id}>
+            <Link
+              className="text-xl font-semibold underline"
+              href={{ pathname: '/', query: { tag: tag.name } }}
+            >
+              #{tag.name}
+            </Link>{' '}
+            <span className="text-gray-400">
+              {tag.postCount} {tag.postCount === 1 ? 'post' : 'posts'}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default TagsPage;
@@ -0,0 +1,91 @@
+import Link from 'next/link';
+
+import type { NextPageWithLayout } from '~/pages/_app';
+import { trpc } from '~/utils/trpc';
+
+const TrashPage: NextPageWithLayout = () => {
+  const utils = trpc.useUtils();
+  const meQuery = trpc.auth.me.useQuery();
+  const trashQuery = trpc.post.trash.useQuery(undefined, {
+    enabled: !!meQuery.data,
+  });
+  const restorePost = trpc.post.restore.useMutation({
+    async onSuccess() {
+      await utils.post.trash.invalidate();
+      await utils.post.list.invalidate();
+      await utils.post.drafts.invalidate();
+    },
+  });
+  const purgePost = trpc.post.purge.useMutation({
+    async onSuccess() {
+      await utils.post.trash.invalidate();
+    },
+  });
+  const isPending = restorePost.isPending || purgePost.isPending;
+  const error = restorePost.error ?? purgePost.error ?? trashQuery.error;
+
+  return (
+    <div className="flex flex-col bg-gray-800 py-8 px-8">
+      <Link className="text-gray-300 underline mb-4" href="/">
+        Home
+      </Link>
+      <h1 className="text-4xl font-bold pb-4">
+        Trash
+        {trashQuery.isLoading && '(loading)'}
+      </h1>
+
+      {meQuery.data === null && (
+        <p className="text-gray-400">
+          <Link className="underline" href="/auth/signin">
+            Sign in
+          </Link>{' '}
+          to see your deleted posts.
+        </p>
+      )}
+      {error && <p style={{ color: 'red' }}>{error.message}</p>}
+      {trashQuery.data?.items.length === 0 && (
+        <p className="text-gray-400">
+          Deleted posts stay here for a while before they are gone for good.
+        </p>
+      )}
+
+      <ul className="flex flex-col gap-y-4">
+        {trashQuery.data?.items.map((item) => (
+          <li key={item.id}>
+            <h2 className="text-xl font-semibold">{item.title}</h2>
+            <p className="text-gray-400">
+              Deleted {item.deletedAt.toLocaleDateString('en-us')}
+              {' · '}purged {item.purgeAt.toLocaleDateString('en-us')}
+            </p>
+            <div className="flex gap-x-2 pt-2">
+              <button
+                className="bg-gray-900 p-2 rounded-md font-semibold px-8"
+                disabled={isPending}
+                onClick={() => restorePost.mutate({ id: item.id })}
+              >
+                Restore
+              </button>
+              <button
+                className="bg-gray-900 p-2 rounded-md font-semibold px-8 text-red-400 disabled:text-gray-400"
+                disabled={isPending}
+                onClick={() => {
+                  if (
+                    window.confirm(
+                      `Delete "${item.title}" for good? This can't be undone.`,
+                    )
+                  ) {
+                    purgePost.mutate({ id: item.id });
+                  }
+                }}
+              >
+                Delete forever
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default TrashPage;
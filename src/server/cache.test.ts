@@ -0,0 +1,153 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { AnyTRPCProcedure, AnyTRPCRouter } from '@trpc/server';
+import { fetchRequestHandler } from '@trpc/server/adapters/fetch';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { expect, test } from 'vitest';
+import { transformer } from '~/utils/transformer';
+import { CACHEABLE_QUERIES } from '~/utils/trpc';
+import { cacheResponseMeta, withConditionalGet } from './cache';
+import { createContextInner } from './context';
+import { prisma } from './prisma';
+import { appRouter } from './routers/_app';
+import { createTestSession } from './testUtils';
+import type { Meta } from './trpc';
+
+async function callApi(
+  path: string,
+  opts: {
+    input?: unknown;
+    method?: 'GET' | 'POST';
+    headers?: Record<string, string>;
+    signedIn?: boolean;
+  } = {},
+) {
+  const { input, method = 'GET', headers = {}, signedIn = false } = opts;
+  const serialized = JSON.stringify(
+    Object.fromEntries(
+      path.split(',').map((_, index) => [index, transformer.serialize(input)]),
+    ),
+  );
+  const url = new URL(`http://localhost/api/trpc/${path}`);
+  url.searchParams.set('batch', '1');
+  if (method === 'GET') {
+    url.searchParams.set('input', serialized);
+  }
+  const session = signedIn ? await createTestSession() : null;
+
+  return fetchRequestHandler({
+    endpoint: '/api/trpc',
+    req: new Request(url, {
+      method,
+      headers,
+      body: method === 'POST' ? serialized : undefined,
+    }),
+    router: appRouter,
+    createContext: () => createContextInner({ session }),
+    responseMeta: cacheResponseMeta,
+  });
+}
+
+test('cacheable queries get cache headers and an ETag', async () => {
+  const title = `etag-${crypto.randomUUID().slice(0, 8)}`;
+  await prisma.post.create({
+    data: { slug: title, title, text: 'etag' },
+  });
+  // only lists the post above, so posts written by other tests don't change the ETag
+  const input = { filter: { titleStartsWith: title } };
+  const res = await callApi('healthcheck,post.list', { input });
+
+  expect(res.status).toBe(200);
+  // the strictest options of the batch win
+  expect(res.headers.get('cache-control')).toBe('public, s-maxage=1');
+  expect(res.headers.get('etag')).toMatch(/^W\/".+"$/);
+
+  const again = await callApi('healthcheck,post.list', { input });
+  expect(again.headers.get('etag')).toBe(res.headers.get('etag'));
+});
+
+test('conditional requests for an unchanged response get a 304', async () => {
+  const handler = withConditionalGet(
+    (_req: NextApiRequest, res: NextApiResponse) => {
+      res.setHeader('etag', 'W/"v1"');
+      res.end('body');
+    },
+  );
+  const server = createServer((req, res) =>
+    handler(req as NextApiRequest, res as NextApiResponse),
+  );
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    const matching = await fetch(url, {
+      headers: { 'if-none-match': 'W/"v0", W/"v1"' },
+    });
+    expect(matching.status).toBe(304);
+    expect(await matching.text()).toBe('');
+
+    const stale = await fetch(url, { headers: { 'if-none-match': 'W/"v0"' } });
+    expect(stale.status).toBe(200);
+    expect(await stale.text()).toBe('body');
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
+
+test('stale-while-revalidate is passed through', async () => {
+  const res = await callApi('post.list', { input: {} });
+  expect(res.headers.get('cache-control')).toBe(
+    'public, s-maxage=10, stale-while-revalidate=60',
+  );
+});
+
+test('batches with uncacheable calls are never cached', async () => {
+  // `auth.me` isn't marked as cacheable
+  const mixed = await callApi('healthcheck,auth.me');
+  expect(mixed.headers.get('cache-control')).toBe('no-store');
+  expect(mixed.headers.get('etag')).toBeNull();
+
+  const signedIn = await callApi('healthcheck', { signedIn: true });
+  expect(signedIn.headers.get('cache-control')).toBe('no-store');
+
+  const failed = await callApi('post.byId', { input: { id: 'missing' } });
+  expect(failed.status).toBe(404);
+  expect(failed.headers.get('cache-control')).toBe('no-store');
+
+  const mutation = await callApi('auth.signOut', { method: 'POST' });
+  expect(mutation.headers.get('cache-control')).toBe('no-store');
+
+  const streamed = await callApi('healthcheck', {
+    headers: { 'trpc-accept': 'application/jsonl' },
+  });
+  expect(streamed.headers.get('cache-control')).toBe('no-store');
+});
+
+test('the client sends every cacheable query without streaming', () => {
+  const router: AnyTRPCRouter = appRouter;
+  const procedures = router._def.procedures as Record<string, AnyTRPCProcedure>;
+  const cacheable = Object.entries(procedures)
+    .filter(([, procedure]) => (procedure._def.meta as Meta | undefined)?.cache)
+    .map(([path]) => path);
+
+  expect(new Set(cacheable)).toEqual(CACHEABLE_QUERIES);
+});
+
+test('subscriptions keep their event stream headers', async () => {
+  const controller = new AbortController();
+  const res = await fetchRequestHandler({
+    endpoint: '/api/trpc',
+    req: new Request('http://localhost/api/trpc/post.onChange', {
+      signal: controller.signal,
+    }),
+    router: appRouter,
+    createContext: () => createContextInner({ session: null }),
+    responseMeta: cacheResponseMeta,
+  });
+  controller.abort();
+  await res.body?.cancel();
+
+  expect(res.headers.get('content-type')).toBe('text/event-stream');
+  // `no-store` would drop `no-transform` and let compression buffer the stream
+  expect(res.headers.get('cache-control')).toBe('no-cache, no-transform');
+});
@@ -0,0 +1,126 @@
+/**
+ * HTTP caching for queries marked with `cache` in their meta, see `Meta` in `./trpc.ts`.
+ * A response is only cacheable when every call in the batch is a cacheable query,
+ * nothing failed, the caller isn't signed in and the response isn't streamed,
+ * which is why the app's client sends cacheable queries with `httpBatchLink`.
+ * @see https://trpc.io/docs/v11/caching
+ */
+import { createHash } from 'node:crypto';
+import type { ResponseMeta, ResponseMetaFn } from '@trpc/server/http';
+import type { NextApiHandler } from 'next';
+import { transformer } from '~/utils/transformer';
+import type { AppRouter } from './routers/_app';
+import type { Meta } from './trpc';
+
+type CacheOptions = NonNullable<Meta['cache']>;
+
+const NO_STORE: ResponseMeta = { headers: { 'cache-control': 'no-store' } };
+
+/**
+ * The strictest cache options of all calls in a batch, or `null` if any of them must not be cached
+ */
+function batchCacheOptions(
+  calls: NonNullable<Parameters<ResponseMetaFn<AppRouter>>[0]['info']>['calls'],
+): CacheOptions | null {
+  let sMaxAge = Infinity;
+  let staleWhileRevalidate = Infinity;
+  for (const call of calls) {
+    const cache = (call.procedure?._def.meta as Meta | undefined)?.cache;
+    if (call.procedure?._def.type !== 'query' || !cache) {
+      return null;
+    }
+    sMaxAge = Math.min(sMaxAge, cache.sMaxAge);
+    staleWhileRevalidate = Math.min(
+      staleWhileRevalidate,
+      cache.staleWhileRevalidate ?? 0,
+    );
+  }
+  return calls.length > 0 ? { sMaxAge, staleWhileRevalidate } : null;
+}
+
+/**
+ * Weak since the body is compared after deserializing, not byte for byte
+ */
+function etagOf(data: unknown) {
+  const hash = createHash('sha1')
+    .update(JSON.stringify(transformer.serialize(data)))
+    .digest('base64url');
+  return `W/"${hash}"`;
+}
+
+/**
+ * The `Cache-Control` header for a response shared caches may keep
+ */
+export function cacheControlOf(options: CacheOptions) {
+  return [
+    'public',
+    `s-maxage=${options.sMaxAge}`,
+    options.staleWhileRevalidate
+      ? `stale-while-revalidate=${options.staleWhileRevalidate}`
+      : null,
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
+export const cacheResponseMeta: ResponseMetaFn<AppRouter> = (opts) => {
+  const { ctx, info, errors, data, eagerGeneration } = opts;
+  // event streams keep tRPC's `no-cache, no-transform` so proxies don't buffer them
+  if (
+    info?.calls.some((call) => call.procedure?._def.type === 'subscription')
+  ) {
+    return {};
+  }
+  const options = info ? batchCacheOptions(info.calls) : null;
+  // streamed responses start before their errors are known
+  if (!options || !ctx || ctx.session || errors.length > 0 || eagerGeneration) {
+    return NO_STORE;
+  }
+
+  return {
+    headers: {
+      'cache-control': cacheControlOf(options),
+      etag: etagOf(data),
+    },
+  };
+};
+
+/**
+ * Whether an `If-None-Match` request header lists `etag`
+ */
+export function etagMatches(
+  ifNoneMatch: string | string[] | undefined,
+  etag: string,
+) {
+  return String(ifNoneMatch ?? '')
+    .split(',')
+    .some((value) => value.trim() === etag || value.trim() === '*');
+}
+
+/**
+ * Answers conditional requests with `304 Not Modified` when the `ETag` set by `cacheResponseMeta` still matches.
+ * tRPC can't do this itself since its responses always have a body.
+ */
+export function withConditionalGet(handler: NextApiHandler): NextApiHandler {
+  return (req, res) => {
+    const ifNoneMatch = req.headers['if-none-match'];
+    if (req.method === 'GET' && ifNoneMatch) {
+      const writeHead = res.writeHead.bind(res) as (
+        ...args: unknown[]
+      ) => typeof res;
+      // the status is decided right before the headers are sent, Node drops the body of 304 responses
+      res.writeHead = ((...args: unknown[]) => {
+        const etag = res.getHeader('etag');
+        if (
+          typeof etag === 'string' &&
+          args[0] === 200 &&
+          etagMatches(ifNoneMatch, etag)
+        ) {
+          args[0] = 304;
+        }
+        return writeHead(...args);
+      }) as typeof res.writeHead;
+    }
+    return handler(req, res);
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * The passing of time as a dependency, so time-based code can be tested with a fake clock
+ */
+
+export interface Clock {
+  now(): Date;
+  /**
+   * `callback` may return a promise, a fake clock can wait for it before moving on
+   */
+  setTimeout(callback: () => void | Promise<void>, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  setTimeout: (callback, ms) => setTimeout(() => void callback(), ms),
+  clearTimeout: (handle) => clearTimeout(handle as NodeJS.Timeout),
+};
@@ -1,29 +1,104 @@
-/* eslint-disable @typescript-eslint/no-unused-vars */
 import type * as trpcNext from '@trpc/server/adapters/next';
+import { randomUUID } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import { env } from './env';
+import { prisma } from './prisma';
+import type { Session } from './session';
+import {
+  SESSION_COOKIE,
+  readSessionToken,
+  serializeSessionCookie,
+} from './session';
 
-// eslint-disable-next-line @typescript-eslint/no-empty-object-type
 interface CreateContextOptions {
-  // session: Session | null
+  session: Session | null;
+  /**
+   * Writes the session cookie, `null` signs the user out.
+   * Left out when there is no response to write to, e.g. in tests or server-side calls.
+   */
+  setSessionCookie?: (token: string | null) => void;
+  /**
+   * Address of the client, used for rate limits. Left out for server-side calls.
+   */
+  ip?: string | null;
+  /**
+   * Ties together the logs of one HTTP request, all calls of a batch share it. Generated when left out.
+   */
+  requestId?: string;
 }
 
 /**
  * Inner function for `createContext` where we create the context.
  * This is useful for testing when we don't want to mock Next.js' request/response
  */
-export async function createContextInner(_opts: CreateContextOptions) {
-  return {};
+export async function createContextInner(opts: CreateContextOptions) {
+  return {
+    session: opts.session,
+    setSessionCookie: opts.setSessionCookie ?? (() => undefined),
+    ip: opts.ip ?? null,
+    requestId: opts.requestId ?? randomUUID(),
+  };
 }
 
 export type Context = Awaited<ReturnType<typeof createContextInner>>;
 
+/**
+ * Resolves the session from the signed session cookie
+ */
+export async function getSession(req: {
+  cookies: Partial<Record<string, string>>;
+}): Promise<Session | null> {
+  const token = req.cookies[SESSION_COOKIE];
+  const payload = token ? readSessionToken(token) : null;
+  if (!payload) {
+    return null;
+  }
+  const user = await prisma.user.findUnique({
+    where: { id: payload.userId },
+    select: { id: true, email: true, name: true },
+  });
+  return user ? { user, expires: payload.expires } : null;
+}
+
+/**
+ * The client's address, taken from `X-Forwarded-For` only when a trusted proxy sets it
+ */
+export function getClientIp(req: IncomingMessage) {
+  const forwardedFor = req.headers['x-forwarded-for'];
+  if (env.TRUST_PROXY && forwardedFor) {
+    const [first] = [forwardedFor].flat().join(',').split(',');
+    return first.trim();
+  }
+  return req.socket.remoteAddress ?? null;
+}
+
+/**
+ * Reuses the `X-Request-Id` of a proxy in front of the app, so its logs and ours line up
+ */
+function getRequestId(req: IncomingMessage) {
+  const requestId = req.headers['x-request-id'];
+  return typeof requestId === 'string' && /^[\w.:-]{1,128}$/.test(requestId)
+    ? requestId
+    : randomUUID();
+}
+
 /**
  * Creates context for an incoming request
  * @see https://trpc.io/docs/v11/context
  */
 export async function createContext(
-  opts: trpcNext.CreateNextContextOptions,
+  opts: Pick<trpcNext.CreateNextContextOptions, 'req' | 'res'>,
 ): Promise<Context> {
   // for API-response caching see https://trpc.io/docs/v11/caching
 
-  return await createContextInner({});
+  const requestId = getRequestId(opts.req);
+  opts.res.setHeader('X-Request-Id', requestId);
+  return await createContextInner({
+    session: await getSession(opts.req),
+    setSessionCookie(token) {
+      opts.res.appendHeader('Set-Cookie', serializeSessionCookie(token));
+    },
+    ip: getClientIp(opts.req),
+    requestId,
+  });
 }
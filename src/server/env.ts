@@ -1,21 +1,23 @@
 /**
- * This file is included in `/next.config.ts` which ensures the app isn't built with invalid env vars.
- * It has to be a `.js`-file to be imported there.
+ * The validated environment of the server, see `src/utils/env.ts` for the variables.
+ * Importing this file fails the server's startup when a variable is missing or invalid.
  */
+import type { Env } from '~/utils/env';
+import { publicEnv } from '~/utils/env';
 
-import { z } from 'zod';
+export const env = publicEnv;
 
-const envSchema = z.object({
-  DATABASE_URL: z.url(),
-  NODE_ENV: z.enum(['development', 'test', 'production']),
-});
-
-const _env = envSchema.safeParse(process.env);
-
-if (!_env.success) {
-  throw new Error(
-    '❌ Invalid environment variables: ' +
-      JSON.stringify(z.treeifyError(_env.error), null, 4),
-  );
+/**
+ * Which optional features the environment turns on, logged when the server starts
+ */
+export function describeFeatures(env: Env) {
+  return {
+    sessionSecret: env.SESSION_SECRET ? 'set' : 'development fallback',
+    postEvents: env.POST_EVENTS,
+    rateLimitStore: env.RATE_LIMIT_STORE,
+    trustProxy: env.TRUST_PROXY,
+    tracing: env.OTEL_EXPORTER_OTLP_ENDPOINT ?? false,
+    errorReportUrl: !!env.ERROR_REPORT_URL,
+    admins: env.ADMIN_EMAILS.length,
+  };
 }
-export const env = _env.data;
@@ -0,0 +1,201 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { TRPCError } from '@trpc/server';
+import { describe, expect, test } from 'vitest';
+import { env } from './env';
+import type { ErrorReport } from './errorReporter';
+import {
+  createErrorReport,
+  createFileErrorReporter,
+  createHttpErrorReporter,
+  fingerprintOf,
+  sanitizeInput,
+} from './errorReporter';
+import { createSignedInCaller } from './testUtils';
+
+function failingCall(id: string) {
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    cause: new Error(`Post ${id} has no author`),
+  });
+}
+
+function reportOf(error: TRPCError, now = new Date()) {
+  return createErrorReport({
+    error,
+    path: 'post.byId',
+    type: 'query',
+    input: { id: 'post-1', password: 'hunter22' },
+    userId: 'user-1',
+    requestId: 'request-1',
+    now,
+  });
+}
+
+describe('sanitizeInput', () => {
+  test('redacts secrets and cuts long values short', () => {
+    expect(
+      sanitizeInput({
+        email: 'a@example.com',
+        password: 'hunter22',
+        nested: { sessionToken: 'abc' },
+        text: 'x'.repeat(600),
+        tags: Array.from({ length: 25 }, (_, i) => `tag-${i}`),
+      }),
+    ).toEqual({
+      email: 'a@example.com',
+      password: '[redacted]',
+      nested: { sessionToken: '[redacted]' },
+      text: `${'x'.repeat(500)}… (600 characters)`,
+      tags: [...Array.from({ length: 20 }, (_, i) => `tag-${i}`), '… (5 more)'],
+    });
+  });
+});
+
+describe('createErrorReport', () => {
+  test('reports the underlying error with a sanitized input', () => {
+    const report = reportOf(failingCall('1'));
+    expect(report).toMatchObject({
+      path: 'post.byId',
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Post 1 has no author',
+      input: { id: 'post-1', password: '[redacted]' },
+      userId: 'user-1',
+    });
+    expect(report.stack).toContain('Post 1 has no author');
+  });
+
+  test('gives the same fingerprint to occurrences with different data', () => {
+    const errors = ['1', '2'].map(failingCall);
+    expect(reportOf(errors[0]).fingerprint).toBe(
+      reportOf(errors[1]).fingerprint,
+    );
+    expect(
+      fingerprintOf({ path: 'post.list', error: new Error('Post 1') }),
+    ).not.toBe(
+      fingerprintOf({ path: 'post.byId', error: new Error('Post 1') }),
+    );
+  });
+});
+
+describe('file reporter', () => {
+  test('groups reports by fingerprint', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'error-reports-'));
+    try {
+      const reporter = createFileErrorReporter({
+        file: join(dir, 'errors.json'),
+      });
+      const first = new Date('2026-01-01T00:00:00Z');
+      const last = new Date('2026-01-01T00:05:00Z');
+      await Promise.all([
+        reporter.report(reportOf(failingCall('1'), first)),
+        reporter.report(reportOf(failingCall('2'), last)),
+        reporter.report({
+          ...reportOf(failingCall('3'), first),
+          fingerprint: 'other',
+        }),
+      ]);
+
+      const groups = await reporter.list();
+      expect(groups).toHaveLength(2);
+      expect(groups[1]).toMatchObject({
+        count: 2,
+        firstSeenAt: first,
+        occurredAt: last,
+        message: 'Post 2 has no author',
+      });
+
+      await reporter.resolve('other');
+      expect(await reporter.list()).toHaveLength(1);
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+});
+
+/**
+ * Stands in for an error tracker, keeping the reports posted to it
+ */
+async function startTracker() {
+  const received: (ErrorReport & { suppressed: number })[] = [];
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      received.push(JSON.parse(Buffer.concat(chunks).toString()));
+      res.writeHead(202).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/reports`,
+    received,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+describe('http reporter', () => {
+  test('posts reports, counting repeats within the dedupe window', async () => {
+    const tracker = await startTracker();
+    let now = new Date('2026-01-01T00:00:00Z');
+    try {
+      const reporter = createHttpErrorReporter({
+        url: tracker.url,
+        dedupeWindowMs: 60_000,
+        now: () => now,
+      });
+      const report = reportOf(failingCall('1'));
+      await reporter.report(report);
+      await reporter.report(report);
+      await reporter.report(report);
+      now = new Date('2026-01-01T00:01:00Z');
+      await reporter.report(report);
+    } finally {
+      await tracker.close();
+    }
+
+    expect(tracker.received).toEqual([
+      expect.objectContaining({ path: 'post.byId', suppressed: 0 }),
+      expect.objectContaining({ path: 'post.byId', suppressed: 2 }),
+    ]);
+  });
+
+  test('throws when the report is rejected', async () => {
+    const server = createServer((_req, res) => res.writeHead(500).end());
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    try {
+      const reporter = createHttpErrorReporter({
+        url: `http://127.0.0.1:${port}`,
+      });
+      await expect(reporter.report(reportOf(failingCall('1')))).rejects.toThrow(
+        'status 500',
+      );
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
+
+describe('admin.errors', () => {
+  test('is only for admins', async () => {
+    const caller = await createSignedInCaller();
+    const user = (await caller.auth.me())!;
+    await expect(caller.admin.errors()).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+    });
+
+    env.ADMIN_EMAILS.push(user.email);
+    try {
+      expect(await caller.admin.errors()).toEqual({
+        items: expect.any(Array),
+      });
+    } finally {
+      env.ADMIN_EMAILS.pop();
+    }
+  });
+});
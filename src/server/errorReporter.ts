@@ -0,0 +1,340 @@
+/**
+ * Reports unexpected errors of procedure calls, see `onError` in `src/pages/api/trpc/[trpc].ts`.
+ * Reports are grouped by a fingerprint of where the error came from, so a failing hot path shows up once with a count.
+ * They are kept in a local JSON file that `/admin/errors` reads, and also posted to `ERROR_REPORT_URL` when set.
+ */
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { ProcedureType, TRPCError } from '@trpc/server';
+import type { Context } from './context';
+import { env } from './env';
+import { logger } from './logger';
+
+export interface ErrorReport {
+  fingerprint: string;
+  path: string | null;
+  type: string;
+  code: string;
+  message: string;
+  stack: string | null;
+  /**
+   * The call's input with secrets redacted and long values cut short, see `sanitizeInput()`
+   */
+  input: unknown;
+  userId: string | null;
+  requestId: string | null;
+  occurredAt: Date;
+}
+
+/**
+ * All reports sharing a fingerprint, with the details of the latest one
+ */
+export interface ErrorGroup extends ErrorReport {
+  count: number;
+  firstSeenAt: Date;
+}
+
+export interface ErrorReporter {
+  report(report: ErrorReport): Promise<void>;
+}
+
+const REDACTED_KEY = /password|token|secret|authorization|cookie|session/i;
+const MAX_STRING_LENGTH = 500;
+const MAX_ITEMS = 20;
+const MAX_DEPTH = 5;
+
+/**
+ * Makes an input safe to keep: secrets are redacted, and long strings, lists and deep objects are cut short
+ */
+export function sanitizeInput(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} characters)`
+      : value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'bigint' ? value.toString() : value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[too deep]';
+  }
+  if (Array.isArray(value)) {
+    const items = value
+      .slice(0, MAX_ITEMS)
+      .map((item) => sanitizeInput(item, depth + 1));
+    return value.length > MAX_ITEMS
+      ? [...items, `… (${value.length - MAX_ITEMS} more)`]
+      : items;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      REDACTED_KEY.test(key) ? '[redacted]' : sanitizeInput(item, depth + 1),
+    ]),
+  );
+}
+
+/**
+ * Identifies an error by its kind and where it was thrown, ignoring line numbers
+ * and ids or numbers in the message so occurrences with different data group together
+ */
+export function fingerprintOf(opts: {
+  path: string | null;
+  error: Error;
+}): string {
+  const { path, error } = opts;
+  const frames = (error.stack ?? '')
+    .split('\n')
+    .filter((line) => line.trim().startsWith('at '))
+    .slice(0, 5)
+    .map((line) => line.trim().replace(/:\d+:\d+\)?$/, ''));
+  const message = error.message
+    .replace(/[0-9a-f]{8}-[0-9a-f-]{27}/gi, '<id>')
+    .replace(/\d+/g, '<n>');
+  return createHash('sha1')
+    .update([path ?? '', error.name, message, ...frames].join('\n'))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Builds the report of an error thrown by a procedure, the underlying error is used when tRPC wrapped it
+ */
+export function createErrorReport(opts: {
+  error: Error & { code?: string };
+  path: string | undefined;
+  type: string;
+  input: unknown;
+  userId: string | null | undefined;
+  requestId: string | null | undefined;
+  now?: Date;
+}): ErrorReport {
+  const { error, path = null, type, input } = opts;
+  const cause = error.cause instanceof Error ? error.cause : error;
+  return {
+    fingerprint: fingerprintOf({ path, error: cause }),
+    path,
+    type,
+    code: error.code ?? 'INTERNAL_SERVER_ERROR',
+    message: cause.message,
+    stack: cause.stack ?? null,
+    input: sanitizeInput(input),
+    userId: opts.userId ?? null,
+    requestId: opts.requestId ?? null,
+    occurredAt: opts.now ?? new Date(),
+  };
+}
+
+export interface FileErrorReporterOptions {
+  file: string;
+  /**
+   * Groups beyond this many are dropped, least recently seen first
+   */
+  maxGroups?: number;
+}
+
+export interface ErrorLog extends ErrorReporter {
+  /**
+   * Error groups, most recently seen first
+   */
+  list(): Promise<ErrorGroup[]>;
+  /**
+   * Forgets a group, e.g. once it was fixed
+   */
+  resolve(fingerprint: string): Promise<void>;
+}
+
+/**
+ * Keeps error groups in a JSON file, writes are queued so concurrent reports don't overwrite each other
+ */
+export function createFileErrorReporter(
+  opts: FileErrorReporterOptions,
+): ErrorLog {
+  const { file, maxGroups = 500 } = opts;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function read(): Promise<ErrorGroup[]> {
+    try {
+      const groups = JSON.parse(await readFile(file, 'utf8')) as ErrorGroup[];
+      return groups.map((group) => ({
+        ...group,
+        occurredAt: new Date(group.occurredAt),
+        firstSeenAt: new Date(group.firstSeenAt),
+      }));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async function write(groups: ErrorGroup[]) {
+    await mkdir(dirname(file), { recursive: true });
+    // replace the file in one step so readers never see half of it
+    const tmp = `${file}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(groups, null, 2));
+    await rename(tmp, file);
+  }
+
+  function enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  }
+
+  return {
+    report(report) {
+      return enqueue(async () => {
+        const groups = await read();
+        const existing = groups.find(
+          (group) => group.fingerprint === report.fingerprint,
+        );
+        const group: ErrorGroup = {
+          ...report,
+          count: (existing?.count ?? 0) + 1,
+          firstSeenAt: existing?.firstSeenAt ?? report.occurredAt,
+        };
+        await write(
+          [
+            group,
+            ...groups.filter(
+              (other) => other.fingerprint !== report.fingerprint,
+            ),
+          ].slice(0, maxGroups),
+        );
+      });
+    },
+    list() {
+      return enqueue(read);
+    },
+    resolve(fingerprint) {
+      return enqueue(async () => {
+        const groups = await read();
+        await write(
+          groups.filter((group) => group.fingerprint !== fingerprint),
+        );
+      });
+    },
+  };
+}
+
+export interface HttpErrorReporterOptions {
+  url: string;
+  /**
+   * Repeats of a fingerprint within this long after it was sent are only counted,
+   * the count goes out with its next report
+   */
+  dedupeWindowMs?: number;
+  now?: () => Date;
+}
+
+/**
+ * Posts reports as JSON to an error tracking service or webhook
+ */
+export function createHttpErrorReporter(
+  opts: HttpErrorReporterOptions,
+): ErrorReporter {
+  const { url, dedupeWindowMs = 60_000, now = () => new Date() } = opts;
+  const sent = new Map<string, { at: number; suppressed: number }>();
+
+  return {
+    async report(report) {
+      const at = now().getTime();
+      const previous = sent.get(report.fingerprint);
+      if (previous && at - previous.at < dedupeWindowMs) {
+        previous.suppressed++;
+        return;
+      }
+      sent.set(report.fingerprint, { at, suppressed: 0 });
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          ...report,
+          // occurrences that weren't sent since the last report
+          suppressed: previous?.suppressed ?? 0,
+        }),
+      });
+      if (!res.ok) {
+        throw new Error(`Error report was rejected with status ${res.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * Sends each report to every reporter, a failing reporter is logged rather than thrown
+ */
+export function combineReporters(reporters: ErrorReporter[]): ErrorReporter {
+  return {
+    async report(report) {
+      await Promise.all(
+        reporters.map((reporter) =>
+          reporter.report(report).catch((error: unknown) => {
+            logger.warn('Failed to report an error', { error });
+          }),
+        ),
+      );
+    },
+  };
+}
+
+const reporterGlobal = globalThis as typeof globalThis & {
+  errorLog?: ErrorLog;
+  errorReporter?: ErrorReporter;
+};
+
+/**
+ * The local error log, browsed on `/admin/errors`
+ */
+export const errorLog = (reporterGlobal.errorLog ??= createFileErrorReporter({
+  file: env.ERROR_REPORT_FILE,
+}));
+
+export const errorReporter = (reporterGlobal.errorReporter ??= combineReporters(
+  [
+    errorLog,
+    ...(env.ERROR_REPORT_URL
+      ? [createHttpErrorReporter({ url: env.ERROR_REPORT_URL })]
+      : []),
+  ],
+));
+
+/**
+ * `onError` of the API handlers, logs and reports errors that aren't the caller's fault
+ * @see https://trpc.io/docs/v11/error-handling
+ */
+export function onProcedureError(opts: {
+  error: TRPCError;
+  ctx: Context | undefined;
+  path: string | undefined;
+  type: ProcedureType | 'unknown';
+  input: unknown;
+}) {
+  const { error, ctx, path, type, input } = opts;
+  if (error.code !== 'INTERNAL_SERVER_ERROR') {
+    return;
+  }
+  logger.error('Something went wrong', {
+    requestId: ctx?.requestId,
+    path,
+    type,
+    error,
+  });
+  // browsable on `/admin/errors`, reporting never fails the response
+  void errorReporter.report(
+    createErrorReport({
+      error,
+      path,
+      type,
+      input,
+      userId: ctx?.session?.user.id,
+      requestId: ctx?.requestId,
+    }),
+  );
+}
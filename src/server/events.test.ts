@@ -0,0 +1,46 @@
+import { expect, test } from 'vitest';
+import { env } from './env';
+import type { PostEventBus } from './events';
+import { createMemoryPostEventBus, createPostgresPostEventBus } from './events';
+
+async function expectDelivery(
+  publisher: PostEventBus,
+  subscriber: PostEventBus,
+) {
+  await publisher.publish({ type: 'add', id: 'before subscribing' });
+  const controller = new AbortController();
+  const events = (await subscriber.subscribe(controller.signal))[
+    Symbol.asyncIterator
+  ]();
+
+  await publisher.publish({ type: 'add', id: 'first' });
+  await publisher.publish({ type: 'change', id: 'second' });
+  expect((await events.next()).value).toEqual({ type: 'add', id: 'first' });
+  expect((await events.next()).value).toEqual({ type: 'change', id: 'second' });
+
+  controller.abort();
+  expect(await events.next()).toEqual({ done: true, value: undefined });
+}
+
+test('the memory bus delivers events published after subscribing', async () => {
+  const bus = createMemoryPostEventBus();
+  await expectDelivery(bus, bus);
+  await bus.close();
+});
+
+test('the postgres bus delivers events to every instance', async () => {
+  const channel = `post_events_${crypto.randomUUID().replaceAll('-', '')}`;
+  const publisher = createPostgresPostEventBus({
+    connectionString: env.DATABASE_URL,
+    channel,
+  });
+  const subscriber = createPostgresPostEventBus({
+    connectionString: env.DATABASE_URL,
+    channel,
+  });
+  try {
+    await expectDelivery(publisher, subscriber);
+  } finally {
+    await Promise.all([publisher.close(), subscriber.close()]);
+  }
+});
@@ -0,0 +1,177 @@
+/**
+ * Tells subscriptions about posts that were added, changed or removed, see `post.onAdd` and `post.onChange`.
+ * Events only carry the post id, subscriptions load the post themselves so they can check who may see it.
+ * The in-memory bus reaches subscribers of the same process,
+ * set `POST_EVENTS=postgres` to fan events out to every instance with LISTEN/NOTIFY.
+ */
+import { EventEmitter, on } from 'node:events';
+import pg from 'pg';
+import { env } from './env';
+import { logger } from './logger';
+
+export interface PostEvent {
+  type: 'add' | 'change' | 'remove';
+  id: string;
+}
+
+export interface PostEventBus {
+  publish(event: PostEvent): Promise<void>;
+  /**
+   * Resolves once listening, the iterable yields every event published after that until `signal` aborts
+   */
+  subscribe(signal?: AbortSignal): Promise<AsyncIterable<PostEvent>>;
+  close(): Promise<void>;
+}
+
+/**
+ * Listens on `emitter` right away rather than when iteration starts, so no event is missed in between
+ */
+function eventsOf(
+  emitter: EventEmitter,
+  signal: AbortSignal | undefined,
+): AsyncIterable<PostEvent> {
+  const events = on(emitter, 'event', { signal });
+  return (async function* () {
+    try {
+      for await (const [event] of events) {
+        yield event as PostEvent;
+      }
+    } catch (error) {
+      // aborting ends the subscription, it isn't a failure
+      if (!signal?.aborted) {
+        throw error;
+      }
+    }
+  })();
+}
+
+function createEmitter() {
+  // one listener per open subscription
+  return new EventEmitter().setMaxListeners(0);
+}
+
+export function createMemoryPostEventBus(): PostEventBus {
+  const emitter = createEmitter();
+  return {
+    async publish(event) {
+      emitter.emit('event', event);
+    },
+    async subscribe(signal) {
+      return eventsOf(emitter, signal);
+    },
+    async close() {
+      emitter.removeAllListeners();
+    },
+  };
+}
+
+export interface PostgresPostEventBusOptions {
+  connectionString: string;
+  channel?: string;
+  /**
+   * How long to wait before listening again after the connection dropped
+   */
+  reconnectDelayMs?: number;
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Sends events with `NOTIFY` and delivers what it hears on `LISTEN`, including its own events,
+ * so every instance sharing the database sees the same stream.
+ * It holds one dedicated connection, opened on first use.
+ */
+export function createPostgresPostEventBus(
+  opts: PostgresPostEventBusOptions,
+): PostEventBus {
+  const {
+    connectionString,
+    channel = 'post_events',
+    reconnectDelayMs = 1_000,
+    onError = (error) =>
+      logger.error('Post event connection failed', { error }),
+  } = opts;
+  const emitter = createEmitter();
+  let connection: Promise<pg.Client> | null = null;
+  let closed = false;
+
+  function connect() {
+    connection ??= (async () => {
+      const client = new pg.Client({ connectionString });
+      client.on('notification', (message) => {
+        if (message.channel === channel && message.payload) {
+          emitter.emit('event', JSON.parse(message.payload) as PostEvent);
+        }
+      });
+      client.on('error', (error) => {
+        onError(error);
+        connection = null;
+        client.end().catch(() => undefined);
+        // subscribers would wait forever without a new connection
+        setTimeout(() => {
+          if (!closed && emitter.listenerCount('event') > 0) {
+            connect().catch(onError);
+          }
+        }, reconnectDelayMs);
+      });
+      try {
+        await client.connect();
+        await client.query(`LISTEN ${client.escapeIdentifier(channel)}`);
+      } catch (error) {
+        connection = null;
+        client.end().catch(() => undefined);
+        throw error;
+      }
+      return client;
+    })();
+    return connection;
+  }
+
+  return {
+    async publish(event) {
+      const client = await connect();
+      await client.query('SELECT pg_notify($1, $2)', [
+        channel,
+        JSON.stringify(event),
+      ]);
+    },
+    async subscribe(signal) {
+      await connect();
+      // notifications arrive on later ticks, none can slip in before this listens
+      return eventsOf(emitter, signal);
+    },
+    async close() {
+      closed = true;
+      emitter.removeAllListeners();
+      const client = await connection?.catch(() => null);
+      connection = null;
+      await client?.end();
+    },
+  };
+}
+
+function createPostEventBus(): PostEventBus {
+  if (env.POST_EVENTS === 'postgres') {
+    return createPostgresPostEventBus({ connectionString: env.DATABASE_URL });
+  }
+  return createMemoryPostEventBus();
+}
+
+const eventsGlobal = globalThis as typeof globalThis & {
+  postEvents?: PostEventBus;
+};
+
+/**
+ * The app's event bus, kept on the global object so API routes and the scheduler share it
+ */
+export const postEvents = (eventsGlobal.postEvents ??= createPostEventBus());
+
+/**
+ * Publishes after a write has been committed, a failure is logged rather than failing the write
+ */
+export async function publishPostEvent(event: PostEvent) {
+  try {
+    await postEvents.publish(event);
+  } catch (error) {
+    logger.error('Failed to publish post event', { event, error });
+  }
+}
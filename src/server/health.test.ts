@@ -0,0 +1,189 @@
+import { mkdir, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { describe, expect, test } from 'vitest';
+import { createContextInner } from './context';
+import { env } from './env';
+import type { ReadinessOptions } from './health';
+import { checkReadiness, healthRoute } from './health';
+import { createCaller } from './routers/_app';
+
+/**
+ * Stands in for the database, `queryRaw` gets the SQL of every query
+ */
+function fakeDb(queryRaw: (sql: string) => Promise<unknown>) {
+  return {
+    $queryRaw: (query: TemplateStringsArray) => queryRaw(query.join('?')),
+  } as unknown as ReadinessOptions['db'];
+}
+
+/**
+ * A reachable database where Prisma recorded `applied` as applied migrations
+ */
+function migratedDb(applied: string[]) {
+  return fakeDb(async (sql) => {
+    if (sql.includes('to_regclass')) {
+      return [{ exists: true }];
+    }
+    if (sql.includes('_prisma_migrations')) {
+      return applied.map((name) => ({ migration_name: name }));
+    }
+    return [{ '?column?': 1 }];
+  });
+}
+
+/**
+ * Runs `fn` with a migrations folder holding `migrations`
+ */
+async function withMigrationsDir(
+  migrations: string[],
+  fn: (dir: string) => Promise<void>,
+) {
+  const dir = await mkdtemp(join(tmpdir(), 'migrations-'));
+  try {
+    for (const name of migrations) {
+      await mkdir(join(dir, name));
+    }
+    await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true });
+  }
+}
+
+describe('checkReadiness', () => {
+  test('is ok when the database is reachable and migrated', async () => {
+    await withMigrationsDir(['20260101000000_init'], async (dir) => {
+      const report = await checkReadiness({
+        db: migratedDb(['20260101000000_init']),
+        migrationsDir: dir,
+      });
+      expect(report).toMatchObject({
+        status: 'ok',
+        version: 'dev',
+        checks: {
+          database: { ok: true },
+          migrations: { ok: true, pending: [] },
+        },
+      });
+      expect(report.uptimeSeconds).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  test('lists migrations that were not applied', async () => {
+    const migrations = [
+      '20260101000000_init',
+      '29990101000000_from_the_future',
+    ];
+    await withMigrationsDir(migrations, async (dir) => {
+      const report = await checkReadiness({
+        db: migratedDb(['20260101000000_init']),
+        migrationsDir: dir,
+      });
+      expect(report).toMatchObject({
+        status: 'degraded',
+        checks: {
+          database: { ok: true },
+          migrations: {
+            ok: false,
+            error: '1 pending migration(s)',
+            pending: ['29990101000000_from_the_future'],
+          },
+        },
+      });
+    });
+  });
+
+  test('skips the migrations when they are not deployed', async () => {
+    const dir = join(tmpdir(), `missing-${crypto.randomUUID()}`);
+    const report = await checkReadiness({
+      db: migratedDb([]),
+      migrationsDir: dir,
+    });
+    expect(report).toMatchObject({
+      status: 'ok',
+      checks: {
+        migrations: {
+          ok: true,
+          pending: [],
+          skipped: `No migrations at ${dir}`,
+        },
+      },
+    });
+  });
+
+  test('is degraded when the database is unreachable', async () => {
+    const report = await checkReadiness({
+      db: fakeDb(() => Promise.reject(new Error('Connection refused'))),
+    });
+    expect(report).toMatchObject({
+      status: 'degraded',
+      checks: {
+        database: { ok: false, error: 'Connection refused' },
+        migrations: { ok: false, error: 'Connection refused' },
+      },
+    });
+  });
+
+  test('gives up on a database that does not answer', async () => {
+    const report = await checkReadiness({
+      db: fakeDb(() => new Promise<never>(() => undefined)),
+      timeoutMs: 20,
+    });
+    expect(report.checks.database).toMatchObject({
+      ok: false,
+      error: 'Timed out after 20ms',
+    });
+  });
+});
+
+describe('system router', () => {
+  test('reports health and readiness', async () => {
+    const caller = createCaller(await createContextInner({ session: null }));
+    expect(await caller.system.health()).toMatchObject({ status: 'ok' });
+
+    // whether Prisma migrated the test database depends on how it was set up, only check that it answers
+    const { MIGRATIONS_DIR } = env;
+    env.MIGRATIONS_DIR = join(tmpdir(), `missing-${crypto.randomUUID()}`);
+    try {
+      expect(await caller.system.ready()).toMatchObject({ status: 'ok' });
+    } finally {
+      env.MIGRATIONS_DIR = MIGRATIONS_DIR;
+    }
+  });
+});
+
+describe('healthRoute', () => {
+  function fakeResponse() {
+    const res = {
+      statusCode: 0,
+      body: null as unknown,
+      headers: {} as Record<string, string>,
+      setHeader(name: string, value: string) {
+        res.headers[name] = value;
+        return res;
+      },
+      status(code: number) {
+        res.statusCode = code;
+        return res;
+      },
+      json(body: unknown) {
+        res.body = body;
+      },
+    };
+    return res;
+  }
+
+  test('answers 503 when degraded', async () => {
+    const handler = healthRoute(() =>
+      checkReadiness({
+        db: fakeDb(() => Promise.reject(new Error('Connection refused'))),
+      }),
+    );
+    const res = fakeResponse();
+    await handler({} as NextApiRequest, res as unknown as NextApiResponse);
+    expect(res.statusCode).toBe(503);
+    expect(res.headers['cache-control']).toBe('no-store');
+    expect(res.body).toMatchObject({ status: 'degraded' });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Liveness and readiness checks for load balancers and orchestrators,
+ * served by the `system` router and by `/api/health` and `/api/ready`.
+ * Liveness only says the process answers, readiness that it can serve traffic:
+ * the database is reachable and every migration in `prisma/migrations` was applied,
+ * or in `MIGRATIONS_DIR` where the app is deployed without that folder.
+ */
+import { readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { NextApiHandler } from 'next';
+import { env } from './env';
+import { prisma } from './prisma';
+
+export interface HealthReport {
+  status: 'ok';
+  version: string;
+  uptimeSeconds: number;
+}
+
+export interface CheckResult {
+  ok: boolean;
+  durationMs: number;
+  error?: string;
+}
+
+export interface ReadinessReport extends Omit<HealthReport, 'status'> {
+  status: 'ok' | 'degraded';
+  checks: {
+    database: CheckResult;
+    migrations: CheckResult & {
+      /**
+       * Migrations in `prisma/migrations` that the database hasn't applied
+       */
+      pending: string[];
+      /**
+       * Why the migrations weren't checked, e.g. they aren't deployed along with the app
+       */
+      skipped?: string;
+    };
+  };
+}
+
+type Database = Pick<typeof prisma, '$queryRaw'>;
+
+export interface ReadinessOptions {
+  db?: Database;
+  migrationsDir?: string;
+  /**
+   * A check taking longer than this fails
+   */
+  timeoutMs?: number;
+}
+
+export function checkHealth(): HealthReport {
+  return {
+    status: 'ok',
+    version: env.BUILD_VERSION ?? 'dev',
+    uptimeSeconds: Math.round(process.uptime()),
+  };
+}
+
+/**
+ * Runs `check`, turning a thrown error or a timeout into a failed result
+ */
+async function timed<T>(
+  timeoutMs: number,
+  check: () => Promise<T>,
+): Promise<{ result: CheckResult; value: T | null }> {
+  const start = performance.now();
+  let timeout: NodeJS.Timeout | undefined;
+  try {
+    const value = await Promise.race([
+      check(),
+      new Promise<never>((_resolve, reject) => {
+        timeout = setTimeout(
+          () => reject(new Error(`Timed out after ${timeoutMs}ms`)),
+          timeoutMs,
+        );
+      }),
+    ]);
+    return {
+      result: { ok: true, durationMs: Math.round(performance.now() - start) },
+      value,
+    };
+  } catch (error) {
+    return {
+      result: {
+        ok: false,
+        durationMs: Math.round(performance.now() - start),
+        error: error instanceof Error ? error.message : String(error),
+      },
+      value: null,
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Migrations on disk that Prisma's `_prisma_migrations` table doesn't list as applied
+ * @returns `null` when there's no `migrationsDir` to compare with
+ */
+async function pendingMigrations(db: Database, migrationsDir: string) {
+  let entries;
+  try {
+    entries = await readdir(migrationsDir, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+  const expected = entries
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name);
+  const [{ exists }] = await db.$queryRaw<[{ exists: boolean }]>`
+    SELECT to_regclass('"_prisma_migrations"') IS NOT NULL AS "exists"
+  `;
+  const applied = exists
+    ? await db.$queryRaw<{ migration_name: string }[]>`
+        SELECT "migration_name" FROM "_prisma_migrations"
+        WHERE "finished_at" IS NOT NULL AND "rolled_back_at" IS NULL
+      `
+    : [];
+  const appliedNames = new Set(applied.map((row) => row.migration_name));
+  return expected.filter((name) => !appliedNames.has(name)).sort();
+}
+
+export async function checkReadiness(
+  opts: ReadinessOptions = {},
+): Promise<ReadinessReport> {
+  const {
+    db = prisma,
+    migrationsDir = env.MIGRATIONS_DIR ??
+      join(process.cwd(), 'prisma', 'migrations'),
+    timeoutMs = 2000,
+  } = opts;
+  const [database, migrations] = await Promise.all([
+    timed(timeoutMs, () => db.$queryRaw`SELECT 1`),
+    timed(timeoutMs, () => pendingMigrations(db, migrationsDir)),
+  ]);
+  const pending = migrations.value ?? [];
+  const migrationsResult = {
+    ...migrations.result,
+    ...(pending.length > 0 && {
+      ok: false,
+      error: `${pending.length} pending migration(s)`,
+    }),
+    ...(migrations.result.ok &&
+      migrations.value === null && {
+        skipped: `No migrations at ${migrationsDir}`,
+      }),
+    pending,
+  };
+  const { version, uptimeSeconds } = checkHealth();
+  return {
+    status: database.result.ok && migrationsResult.ok ? 'ok' : 'degraded',
+    version,
+    uptimeSeconds,
+    checks: { database: database.result, migrations: migrationsResult },
+  };
+}
+
+/**
+ * Serves a check as plain JSON, with a `503` when it isn't `ok`
+ */
+export function healthRoute(
+  check: () => Promise<HealthReport | ReadinessReport>,
+): NextApiHandler {
+  return async (_req, res) => {
+    const report = await check();
+    res.setHeader('cache-control', 'no-store');
+    res.status(report.status === 'ok' ? 200 : 503).json(report);
+  };
+}
@@ -0,0 +1,76 @@
+import { fetchRequestHandler } from '@trpc/server/adapters/fetch';
+import { afterEach, expect, test, vi } from 'vitest';
+import { transformer } from '~/utils/transformer';
+import { createContextInner } from './context';
+import { createLogger, logger } from './logger';
+import { appRouter } from './routers/_app';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+test('writes entries at or above its level as JSON lines', () => {
+  const lines: string[] = [];
+  const log = createLogger({
+    level: 'info',
+    write: (line) => lines.push(line),
+    now: () => new Date('2026-01-01T00:00:00Z'),
+  });
+
+  log.log('debug', 'hidden');
+  log.info('shown', { path: 'post.list' });
+  log.error('failed', { error: new Error('boom') });
+
+  expect(lines.every((line) => line.endsWith('\n'))).toBe(true);
+  const [info, error] = lines.map((line) => JSON.parse(line));
+  expect(lines).toHaveLength(2);
+  expect(info).toEqual({
+    time: '2026-01-01T00:00:00.000Z',
+    level: 'info',
+    msg: 'shown',
+    path: 'post.list',
+  });
+  expect(error).toMatchObject({
+    level: 'error',
+    error: { name: 'Error', message: 'boom', stack: expect.any(String) },
+  });
+});
+
+test('logs every call of a batch with the same request id', async () => {
+  const log = vi.spyOn(logger, 'log');
+  const input = { id: 'missing' };
+
+  const url = new URL('http://localhost/api/trpc/healthcheck,post.byId');
+  url.searchParams.set('batch', '1');
+  url.searchParams.set(
+    'input',
+    JSON.stringify({ 1: transformer.serialize(input) }),
+  );
+  await fetchRequestHandler({
+    endpoint: '/api/trpc',
+    req: new Request(url),
+    router: appRouter,
+    createContext: () =>
+      createContextInner({ session: null, requestId: 'request-1' }),
+  });
+
+  expect(log).toHaveBeenCalledTimes(2);
+  expect(log).toHaveBeenCalledWith('info', 'trpc call', {
+    requestId: 'request-1',
+    path: 'healthcheck',
+    type: 'query',
+    durationMs: expect.any(Number),
+    inputBytes: 0,
+    ok: true,
+    code: undefined,
+  });
+  expect(log).toHaveBeenCalledWith('warn', 'trpc call', {
+    requestId: 'request-1',
+    path: 'post.byId',
+    type: 'query',
+    durationMs: expect.any(Number),
+    inputBytes: JSON.stringify(transformer.serialize(input)).length,
+    ok: false,
+    code: 'NOT_FOUND',
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Structured server logs, written as one JSON object per line so log collectors can parse them.
+ * Set `LOG_LEVEL` to change how much is logged, tests log nothing unless asked to.
+ */
+import { env } from './env';
+
+const levels = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = (typeof levels)[number];
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  log(level: LogLevel, msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+}
+
+/**
+ * `JSON.stringify()` turns errors into `{}`, keep what helps debugging instead
+ */
+function serializeErrors(_key: string, value: unknown) {
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: value.message,
+      stack: value.stack,
+      ...(value.cause !== undefined && { cause: value.cause }),
+    };
+  }
+  return value;
+}
+
+export interface LoggerOptions {
+  /**
+   * The least severe level that is written, `silent` writes nothing
+   */
+  level?: LogLevel | 'silent';
+  write?: (line: string) => void;
+  now?: () => Date;
+}
+
+export function createLogger(opts: LoggerOptions = {}): Logger {
+  const {
+    level: minLevel = 'info',
+    write = (line) => process.stdout.write(line),
+    now = () => new Date(),
+  } = opts;
+  const minIndex =
+    minLevel === 'silent' ? levels.length : levels.indexOf(minLevel);
+
+  const logger: Logger = {
+    log(level, msg, fields = {}) {
+      if (levels.indexOf(level) < minIndex) {
+        return;
+      }
+      const entry = { time: now().toISOString(), level, msg, ...fields };
+      write(JSON.stringify(entry, serializeErrors) + '\n');
+    },
+    info: (msg, fields) => logger.log('info', msg, fields),
+    warn: (msg, fields) => logger.log('warn', msg, fields),
+    error: (msg, fields) => logger.log('error', msg, fields),
+  };
+  return logger;
+}
+
+export const logger = createLogger({
+  level: env.LOG_LEVEL ?? (env.NODE_ENV === 'test' ? 'silent' : 'info'),
+});
@@ -0,0 +1,40 @@
+/**
+ * Outgoing mail.
+ * There is no real mail provider configured, so messages are logged and kept in a local outbox.
+ * Bodies are only logged outside production, they hold working sign-in links.
+ * Swap `mailer` for a provider-backed implementation to send real mail.
+ */
+import { env } from './env';
+import { logger } from './logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Messages "sent" by the local mailer, newest last.
+ * Useful to grab magic links in tests and during development.
+ */
+export const outbox: (MailMessage & { sentAt: Date })[] = [];
+
+const OUTBOX_LIMIT = 100;
+
+export const mailer: Mailer = {
+  async send(message) {
+    outbox.push({ ...message, sentAt: new Date() });
+    if (outbox.length > OUTBOX_LIMIT) {
+      outbox.shift();
+    }
+    logger.info('📬 Mail sent', {
+      to: message.to,
+      subject: message.subject,
+      ...(env.NODE_ENV !== 'production' && { text: message.text }),
+    });
+  },
+};
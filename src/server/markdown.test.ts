@@ -0,0 +1,27 @@
+import { describe, expect, test } from 'vitest';
+import { renderMarkdown } from './markdown';
+
+describe('renderMarkdown', () => {
+  test('renders Markdown with highlighted code blocks', async () => {
+    const html = await renderMarkdown(
+      '# Title\n\nSome [link](https://trpc.io)\n\n```ts\nconst a = 1;\n```',
+    );
+
+    expect(html).toContain('<h1>Title</h1>');
+    expect(html).toContain('<a href="https://trpc.io">link</a>');
+    expect(html).toContain('<code class="hljs language-ts">');
+    expect(html).toContain('<span class="hljs-keyword">const</span>');
+  });
+
+  test('strips scripts, event handlers and javascript: urls', async () => {
+    const html = await renderMarkdown(
+      [
+        '<script>alert(1)</script>',
+        '<img src="x" onerror="alert(1)">',
+        '[click](javascript:alert(1))',
+      ].join('\n\n'),
+    );
+
+    expect(html).not.toMatch(/<script|onerror|javascript:/i);
+  });
+});
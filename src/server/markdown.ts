@@ -0,0 +1,29 @@
+/**
+ * Renders post text written in Markdown to HTML that is safe to inject with `dangerouslySetInnerHTML`.
+ * This only ever runs on the server, the client never renders Markdown itself.
+ */
+import rehypeHighlight from 'rehype-highlight';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import rehypeStringify from 'rehype-stringify';
+import remarkGfm from 'remark-gfm';
+import remarkParse from 'remark-parse';
+import remarkRehype from 'remark-rehype';
+import { unified } from 'unified';
+
+const processor = unified()
+  .use(remarkParse)
+  // tables, task lists, strikethrough and autolinks
+  .use(remarkGfm)
+  // raw HTML in the Markdown is dropped rather than passed through
+  .use(remarkRehype)
+  // GitHub's allow-list, it keeps `language-*` classes on code blocks for the highlighter
+  .use(rehypeSanitize, defaultSchema)
+  // runs after sanitizing, it only adds `hljs-*` spans around code tokens
+  .use(rehypeHighlight, { detect: false })
+  .use(rehypeStringify)
+  .freeze();
+
+export async function renderMarkdown(markdown: string) {
+  const file = await processor.process(markdown);
+  return String(file);
+}
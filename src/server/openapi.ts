@@ -0,0 +1,377 @@
+/**
+ * A REST facade for clients that can't use tRPC, served under `/api/v1` by `./rest.ts`.
+ * Procedures opt in with `openapi` in their meta, see `Meta` in `./trpc.ts`,
+ * and their OpenAPI 3.1 document is generated from the Zod schemas of their input and output.
+ * @see https://spec.openapis.org/oas/v3.1.0
+ */
+import type { AnyTRPCProcedure, AnyTRPCRouter } from '@trpc/server';
+import { z } from 'zod';
+import {
+  authorDTOSchema,
+  postDTOSchema,
+  postWithHtmlDTOSchema,
+  tagDTOSchema,
+} from '~/utils/postDTO';
+import { SESSION_COOKIE } from './session';
+import type { Meta } from './trpc';
+
+export type OpenApiMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface OpenApiOperation {
+  method: OpenApiMethod;
+  /**
+   * Relative to `/api/v1`, with `{name}` for input fields taken from the path, e.g. `/posts/{id}`
+   */
+  path: `/${string}`;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  /**
+   * Whether the procedure needs a signed-in user, documented as needing the session cookie
+   */
+  protect?: boolean;
+  /**
+   * Status of successful responses, e.g. `201` for procedures creating something
+   */
+  successStatus?: 200 | 201;
+}
+
+export type JsonSchema = z.core.JSONSchema.BaseSchema;
+
+/**
+ * Nested schemas may also be `true` for anything or `false` for nothing
+ */
+export type JsonSubSchema = z.core.JSONSchema._JSONSchema;
+
+/**
+ * A procedure served as a REST endpoint
+ */
+export interface OpenApiProcedure {
+  /**
+   * The procedure's tRPC path, e.g. `post.byId`
+   */
+  path: string;
+  procedure: AnyTRPCProcedure;
+  operation: OpenApiOperation;
+  /**
+   * JSON Schema of the input as clients send it, `null` for procedures without input
+   */
+  input: JsonSchema | null;
+  /**
+   * JSON Schema of the output, `null` when the procedure doesn't declare one
+   */
+  output: JsonSchema | null;
+  /**
+   * Names of the input fields taken from the path
+   */
+  pathParams: string[];
+}
+
+/**
+ * Points the `$defs` references of a converted schema at the document's `components`
+ */
+function componentRefs(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(componentRefs);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        key === '$ref' && typeof item === 'string'
+          ? item.replace('#/$defs/', '#/components/schemas/')
+          : componentRefs(item),
+      ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Converts Zod schemas to JSON Schema, REST clients send and get JSON so dates are ISO 8601 strings.
+ * `named` schemas are collected in `components` once and referenced wherever they appear.
+ */
+export function createSchemaConverter(named: Record<string, z.ZodType> = {}) {
+  // a registry per document, ids can only be registered once
+  const registry = z.registry<{ id: string }>();
+  for (const [id, schema] of Object.entries(named)) {
+    registry.add(schema, { id });
+  }
+  const components: Record<string, JsonSchema> = {};
+
+  function convert(schema: z.ZodType, io: 'input' | 'output'): JsonSchema {
+    const converted = z.toJSONSchema(schema, {
+      io,
+      target: 'draft-2020-12',
+      unrepresentable: 'any',
+      metadata: registry,
+      override(ctx) {
+        if (ctx.zodSchema._zod.def.type === 'date') {
+          ctx.jsonSchema.type = 'string';
+          ctx.jsonSchema.format = 'date-time';
+        }
+      },
+    });
+    const {
+      $schema: _$schema,
+      $defs = {},
+      id,
+      ...jsonSchema
+    } = componentRefs(converted) as JsonSchema;
+    for (const [name, def] of Object.entries($defs)) {
+      const { id: _id, ...component } = def;
+      components[name] = component;
+    }
+    if (typeof id === 'string') {
+      components[id] = jsonSchema;
+      return { $ref: `#/components/schemas/${id}` };
+    }
+    return jsonSchema;
+  }
+
+  return { convert, components };
+}
+
+function pathParamsOf(path: string) {
+  return [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => name);
+}
+
+/**
+ * Procedures of `router` with `openapi` in their meta
+ */
+export function openApiProcedures(
+  router: AnyTRPCRouter,
+  converter = createSchemaConverter(),
+): OpenApiProcedure[] {
+  const procedures = router._def.procedures as Record<string, AnyTRPCProcedure>;
+  return Object.entries(procedures).flatMap(([path, procedure]) => {
+    const operation = (procedure._def.meta as Meta | undefined)?.openapi;
+    if (!operation) {
+      return [];
+    }
+    const inputs = procedure._def.inputs as unknown[];
+    const [input = null] = inputs;
+    const { output = null } = procedure._def as { output?: unknown };
+    const isSchema = (parser: unknown): parser is z.ZodType | null =>
+      parser === null || parser instanceof z.ZodType;
+    if (inputs.length > 1 || !isSchema(input) || !isSchema(output)) {
+      throw new Error(
+        `${path} can't be served as REST, its input and output must each be a single Zod schema`,
+      );
+    }
+    return {
+      path,
+      procedure,
+      operation,
+      input: input && converter.convert(input, 'input'),
+      output: output && converter.convert(output, 'output'),
+      pathParams: pathParamsOf(operation.path),
+    };
+  });
+}
+
+/**
+ * Whether a value of `schema` can be a string, those query parameters aren't JSON encoded
+ */
+export function acceptsString(schema: JsonSubSchema | undefined): boolean {
+  return (
+    typeof schema !== 'object' ||
+    schema.type === 'string' ||
+    (Array.isArray(schema.type) && schema.type.includes('string')) ||
+    !!schema.anyOf?.some(acceptsString)
+  );
+}
+
+/**
+ * Turns the ISO 8601 strings of a JSON request into the dates the procedure's input expects
+ */
+export function reviveDates(
+  schema: JsonSubSchema | undefined,
+  value: unknown,
+): unknown {
+  if (typeof schema !== 'object') {
+    return value;
+  }
+  // the option of a nullable or union schema that fits the value
+  const optionOfType = (type: string) =>
+    schema.anyOf?.find(
+      (option): option is JsonSchema =>
+        typeof option === 'object' && option.type === type,
+    ) ?? schema;
+  if (typeof value === 'string') {
+    const isDate =
+      schema.format === 'date-time' ||
+      !!schema.anyOf?.some(
+        (option) => typeof option === 'object' && option.format === 'date-time',
+      );
+    return isDate ? new Date(value) : value;
+  }
+  if (Array.isArray(value)) {
+    const arraySchema = optionOfType('array');
+    const items = Array.isArray(arraySchema.items)
+      ? undefined
+      : arraySchema.items;
+    return value.map((item) => reviveDates(items, item));
+  }
+  if (value && typeof value === 'object') {
+    const objectSchema = optionOfType('object');
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        reviveDates(objectSchema.properties?.[key], item),
+      ]),
+    );
+  }
+  return value;
+}
+
+const errorSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    code: { type: 'string', examples: ['NOT_FOUND'] },
+    message: { type: 'string' },
+    issues: {
+      type: 'array',
+      description: 'Why the input was invalid, only for `BAD_REQUEST`',
+      items: { type: 'object' },
+    },
+  },
+  required: ['code', 'message'],
+};
+
+function operationObject(item: OpenApiProcedure) {
+  const { operation, input, output, pathParams } = item;
+  const fields = Object.entries(input?.properties ?? {});
+  const required = new Set(input?.required ?? []);
+  const inBody = ['POST', 'PUT', 'PATCH'].includes(operation.method);
+
+  const parameters = fields
+    .filter(([name]) => pathParams.includes(name) || !inBody)
+    .map(([name, schema]) => {
+      const isPathParam = pathParams.includes(name);
+      return {
+        name,
+        in: isPathParam ? 'path' : 'query',
+        required: isPathParam || required.has(name),
+        // anything but strings is sent as JSON, e.g. `?filter={"tags":["react"]}`
+        ...(acceptsString(schema)
+          ? { schema }
+          : { content: { 'application/json': { schema } } }),
+      };
+    });
+  const bodySchema: JsonSchema | null =
+    inBody && input
+      ? {
+          ...input,
+          properties: Object.fromEntries(
+            fields.filter(([name]) => !pathParams.includes(name)),
+          ),
+          required: [...required].filter((name) => !pathParams.includes(name)),
+        }
+      : null;
+
+  // pages get the document as props, which can't hold `undefined`
+  return {
+    operationId: item.path,
+    ...(operation.summary && { summary: operation.summary }),
+    ...(operation.description && { description: operation.description }),
+    ...(operation.tags && { tags: operation.tags }),
+    ...(operation.protect && { security: [{ sessionCookie: [] }] }),
+    parameters,
+    ...(bodySchema && {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: bodySchema } },
+      },
+    }),
+    responses: {
+      [operation.successStatus ?? 200]: {
+        description: 'Successful response',
+        content: { 'application/json': { schema: output ?? {} } },
+      },
+      default: {
+        description: 'Error response',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/Error' },
+          },
+        },
+      },
+    },
+  };
+}
+
+export interface OpenApiDocumentOptions {
+  title: string;
+  version: string;
+  /**
+   * Where the endpoints are served, e.g. `https://example.com/api/v1`
+   */
+  baseUrl: string;
+  description?: string;
+  /**
+   * Schemas documented once under `components.schemas` by name, and referenced wherever procedures use them
+   */
+  schemas?: Record<string, z.ZodType>;
+}
+
+export type OpenApiDocument = ReturnType<typeof generateOpenApiDocument>;
+
+/**
+ * Title and version of the app's OpenAPI document, bump the version along with breaking changes
+ */
+export const API_DOCUMENT = {
+  title: 'Posts API',
+  version: '1.0.0',
+  description:
+    'REST endpoints for the procedures of the tRPC API that opted in, see `/api-reference`',
+  schemas: {
+    PostDTO: postDTOSchema,
+    PostWithHtmlDTO: postWithHtmlDTOSchema,
+    AuthorDTO: authorDTOSchema,
+    TagDTO: tagDTOSchema,
+  },
+} satisfies Omit<OpenApiDocumentOptions, 'baseUrl'>;
+
+export function generateOpenApiDocument(
+  router: AnyTRPCRouter,
+  opts: OpenApiDocumentOptions,
+) {
+  const paths: Record<
+    string,
+    Record<string, ReturnType<typeof operationObject>>
+  > = {};
+  const converter = createSchemaConverter(opts.schemas);
+  for (const item of openApiProcedures(router, converter)) {
+    const { method, path } = item.operation;
+    paths[path] = {
+      ...paths[path],
+      [method.toLowerCase()]: operationObject(item),
+    };
+  }
+  const schemas: Record<string, JsonSchema> = {
+    ...converter.components,
+    Error: errorSchema,
+  };
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: opts.title,
+      version: opts.version,
+      ...(opts.description && { description: opts.description }),
+    },
+    servers: [{ url: opts.baseUrl }],
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        sessionCookie: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: SESSION_COOKIE,
+          description: 'Set by signing in, see `auth.signIn`',
+        },
+      },
+    },
+  };
+}
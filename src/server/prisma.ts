@@ -4,21 +4,73 @@
  */
 import { PrismaPg } from "@prisma/adapter-pg";
 import { env } from './env';
-import { PrismaClient } from "~/generated/prisma/client";
+import { Prisma, PrismaClient } from "~/generated/prisma/client";
 
-const prismaGlobal = globalThis as typeof globalThis & {
-  prisma?: PrismaClient;
-};
+/**
+ * Hides trashed posts from every query on `post` that filters rows.
+ * Mention `deletedAt` in `where` to opt out, e.g. `deletedAt: { not: null }` for the trash
+ * or `deletedAt: undefined` for all posts.
+ * Relation filters and raw SQL aren't covered and need to check `deletedAt` themselves.
+ */
+const softDeleteOperations = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany',
+  'updateManyAndReturn',
+  'delete',
+  'deleteMany',
+]);
 
-export const prisma: PrismaClient =
-  prismaGlobal.prisma ??
-  new PrismaClient({
+const softDelete = Prisma.defineExtension({
+  name: 'softDelete',
+  query: {
+    post: {
+      async $allOperations({ operation, args, query }) {
+        const filtered = args as { where?: Prisma.PostWhereInput };
+        if (
+          softDeleteOperations.has(operation) &&
+          !(filtered.where && 'deletedAt' in filtered.where)
+        ) {
+          filtered.where = { ...filtered.where, deletedAt: null };
+        }
+        return query(args);
+      },
+    },
+  },
+});
+
+function createPrismaClient() {
+  return new PrismaClient({
     adapter: new PrismaPg({
-      connectionString: process.env.DATABASE_URL,
+      connectionString: env.DATABASE_URL,
     }),
     log:
       env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
-  });
+  }).$extends(softDelete);
+}
+
+export type ExtendedPrismaClient = ReturnType<typeof createPrismaClient>;
+
+/**
+ * The client passed to interactive transactions, use it instead of `Prisma.TransactionClient`
+ */
+export type TransactionClient = Parameters<
+  Parameters<ExtendedPrismaClient['$transaction']>[0]
+>[0];
+
+const prismaGlobal = globalThis as typeof globalThis & {
+  prisma?: ExtendedPrismaClient;
+};
+
+export const prisma: ExtendedPrismaClient =
+  prismaGlobal.prisma ?? createPrismaClient();
 
 if (env.NODE_ENV !== 'production') {
   prismaGlobal.prisma = prisma;
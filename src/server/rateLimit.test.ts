@@ -0,0 +1,124 @@
+import type { TRPCError } from '@trpc/server';
+import { fetchRequestHandler } from '@trpc/server/adapters/fetch';
+import { expect, test } from 'vitest';
+import { transformer } from '~/utils/transformer';
+import { cacheResponseMeta } from './cache';
+import { createContextInner } from './context';
+import type { RateLimitStore } from './rateLimit';
+import {
+  createMemoryRateLimitStore,
+  createPostgresRateLimitStore,
+  retryAfterMsOf,
+  withRetryAfter,
+} from './rateLimit';
+import { appRouter } from './routers/_app';
+import { createSignedInCaller } from './testUtils';
+
+async function expectTokenBucket(store: RateLimitStore) {
+  const key = `test:${crypto.randomUUID()}`;
+  // 3 calls per minute, a token every 20 seconds
+  const limit = { capacity: 3, windowMs: 60_000 };
+  const start = new Date('2026-01-01T00:00:00Z');
+  const at = (ms: number) => new Date(start.getTime() + ms);
+
+  const burst = [];
+  for (let i = 0; i < 4; i++) {
+    burst.push(await store.take(key, limit, start));
+  }
+  expect(burst).toEqual([
+    { allowed: true, remaining: 2, retryAfterMs: 0 },
+    { allowed: true, remaining: 1, retryAfterMs: 0 },
+    { allowed: true, remaining: 0, retryAfterMs: 0 },
+    { allowed: false, remaining: 0, retryAfterMs: 20_000 },
+  ]);
+
+  expect(await store.take(key, limit, at(15_000))).toEqual({
+    allowed: false,
+    remaining: 0,
+    retryAfterMs: 5_000,
+  });
+  expect(await store.take(key, limit, at(20_000))).toMatchObject({
+    allowed: true,
+  });
+  // never fills up beyond its capacity
+  expect(await store.take(key, limit, at(60 * 60_000))).toMatchObject({
+    allowed: true,
+    remaining: 2,
+  });
+
+  // full again after the window, so it can be forgotten
+  await store.prune(at(60 * 60_000 + 20_000));
+  expect(await store.take(key, limit, at(60 * 60_000 + 20_000))).toEqual({
+    allowed: true,
+    remaining: 2,
+    retryAfterMs: 0,
+  });
+}
+
+test('the memory store refills buckets over time', async () => {
+  await expectTokenBucket(createMemoryRateLimitStore());
+});
+
+test('the postgres store refills buckets over time', async () => {
+  await expectTokenBucket(createPostgresRateLimitStore());
+});
+
+test('the postgres store lets concurrent calls take turns', async () => {
+  const store = createPostgresRateLimitStore();
+  const key = `test:${crypto.randomUUID()}`;
+  const now = new Date();
+  const results = await Promise.all(
+    Array.from({ length: 5 }, () =>
+      store.take(key, { capacity: 3, windowMs: 60_000 }, now),
+    ),
+  );
+  expect(results.filter((result) => result.allowed)).toHaveLength(3);
+});
+
+test('adding posts is limited per user', async () => {
+  const caller = await createSignedInCaller();
+
+  for (let i = 0; i < 5; i++) {
+    await caller.post.add({ title: `post ${i}`, text: 'text' });
+  }
+  const error = await caller.post
+    .add({ title: 'one too many', text: 'text' })
+    .catch((error: unknown) => error);
+  expect(error).toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+  expect(retryAfterMsOf(error as TRPCError)).toBeGreaterThan(0);
+});
+
+test('rate limited calls get a Retry-After header and data', async () => {
+  const ip = `203.0.113.${Math.floor(Math.random() * 255)}`;
+  const signIn = () =>
+    fetchRequestHandler({
+      endpoint: '/api/trpc',
+      req: new Request('http://localhost/api/trpc/auth.signIn', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(
+          transformer.serialize({
+            email: 'nobody@example.com',
+            password: 'wrong',
+          }),
+        ),
+      }),
+      router: appRouter,
+      createContext: () => createContextInner({ session: null, ip }),
+      responseMeta: withRetryAfter(cacheResponseMeta),
+    });
+
+  for (let i = 0; i < 10; i++) {
+    expect((await signIn()).status).toBe(401);
+  }
+  const limited = await signIn();
+  expect(limited.status).toBe(429);
+  // a token comes back every 90 seconds
+  expect(limited.headers.get('retry-after')).toBe('90');
+  expect(limited.headers.get('cache-control')).toBe('no-store');
+  const body = (await limited.json()) as {
+    error: { json: { data: { retryAfterMs: number } } };
+  };
+  expect(body.error.json.data.retryAfterMs).toBeGreaterThan(80_000);
+  expect(body.error.json.data.retryAfterMs).toBeLessThanOrEqual(90_000);
+});
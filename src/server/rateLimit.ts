@@ -0,0 +1,213 @@
+/**
+ * Token bucket rate limits for procedures with `rateLimit` in their meta, see `Meta` in `./trpc.ts`.
+ * Every caller gets a bucket per procedure and IP address, signed-in users also one per procedure across addresses.
+ * Buckets live in memory by default, set `RATE_LIMIT_STORE=postgres` to share them between instances.
+ */
+import { TRPCError } from '@trpc/server';
+import type { ResponseMeta, ResponseMetaFn } from '@trpc/server/http';
+import { env } from './env';
+import { prisma } from './prisma';
+import type { AppRouter } from './routers/_app';
+
+export interface RateLimit {
+  /**
+   * Most calls allowed in a burst
+   */
+  capacity: number;
+  /**
+   * How long an empty bucket takes to fill up again, tokens come back one by one over that time
+   */
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /**
+   * Calls left right away after this one
+   */
+  remaining: number;
+  /**
+   * How long until the next call is allowed, `0` when allowed
+   */
+  retryAfterMs: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: Date;
+}
+
+/**
+ * Refills `bucket` for the time since it was last used, then takes a token if there is a whole one
+ */
+function takeToken(bucket: Bucket | null, limit: RateLimit, now: Date) {
+  const tokensPerMs = limit.capacity / limit.windowMs;
+  const refilled = bucket
+    ? Math.min(
+        limit.capacity,
+        bucket.tokens +
+          Math.max(0, now.getTime() - bucket.updatedAt.getTime()) * tokensPerMs,
+      )
+    : limit.capacity;
+  const allowed = refilled >= 1;
+  const tokens = allowed ? refilled - 1 : refilled;
+  const result: RateLimitResult = {
+    allowed,
+    remaining: Math.floor(tokens),
+    retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / tokensPerMs),
+  };
+  return {
+    result,
+    bucket: { tokens, updatedAt: now },
+    expiresAt: new Date(
+      now.getTime() + Math.ceil((limit.capacity - tokens) / tokensPerMs),
+    ),
+  };
+}
+
+export interface RateLimitStore {
+  take(key: string, limit: RateLimit, now: Date): Promise<RateLimitResult>;
+  /**
+   * Forgets buckets that have filled up again, run periodically by the scheduler
+   */
+  prune(now: Date): Promise<void>;
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, Bucket & { expiresAt: Date }>();
+  return {
+    async take(key, limit, now) {
+      const next = takeToken(buckets.get(key) ?? null, limit, now);
+      buckets.set(key, { ...next.bucket, expiresAt: next.expiresAt });
+      return next.result;
+    },
+    async prune(now) {
+      for (const [key, bucket] of buckets) {
+        if (bucket.expiresAt <= now) {
+          buckets.delete(key);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Keeps buckets in the `RateLimitBucket` table, a row lock makes concurrent calls take turns
+ */
+export function createPostgresRateLimitStore(): RateLimitStore {
+  return {
+    async take(key, limit, now) {
+      return prisma.$transaction(async (tx) => {
+        await tx.rateLimitBucket.createMany({
+          data: { key, tokens: limit.capacity, updatedAt: now, expiresAt: now },
+          skipDuplicates: true,
+        });
+        const [bucket] = await tx.$queryRaw<Bucket[]>`
+          SELECT "tokens", "updatedAt" FROM "RateLimitBucket" WHERE "key" = ${key} FOR UPDATE
+        `;
+        const next = takeToken(bucket ?? null, limit, now);
+        await tx.rateLimitBucket.update({
+          where: { key },
+          data: { ...next.bucket, expiresAt: next.expiresAt },
+        });
+        return next.result;
+      });
+    },
+    async prune(now) {
+      await prisma.rateLimitBucket.deleteMany({
+        where: { expiresAt: { lte: now } },
+      });
+    },
+  };
+}
+
+const rateLimitGlobal = globalThis as typeof globalThis & {
+  rateLimitStore?: RateLimitStore;
+};
+
+export const rateLimitStore = (rateLimitGlobal.rateLimitStore ??=
+  env.RATE_LIMIT_STORE === 'postgres'
+    ? createPostgresRateLimitStore()
+    : createMemoryRateLimitStore());
+
+/**
+ * The `cause` of `TOO_MANY_REQUESTS` errors, its `retryAfterMs` is sent to clients in the error's `data`
+ */
+export class RateLimitExceededError extends Error {
+  constructor(public readonly retryAfterMs: number) {
+    super(`Rate limit exceeded, retry in ${retryAfterMs}ms`);
+    this.name = 'RateLimitExceededError';
+  }
+}
+
+/**
+ * Takes a token from each bucket that applies to the caller
+ * @throws a `TOO_MANY_REQUESTS` error if any of them is empty
+ */
+export async function enforceRateLimit(opts: {
+  path: string;
+  limits: { ip?: RateLimit; user?: RateLimit };
+  ip: string | null;
+  userId: string | undefined;
+  store?: RateLimitStore;
+  now?: Date;
+}) {
+  const { path, limits, ip, userId, store = rateLimitStore } = opts;
+  const now = opts.now ?? new Date();
+  const buckets: [string, RateLimit][] = [];
+  if (limits.ip && ip) {
+    buckets.push([`${path}:ip:${ip}`, limits.ip]);
+  }
+  if (limits.user && userId) {
+    buckets.push([`${path}:user:${userId}`, limits.user]);
+  }
+  for (const [key, limit] of buckets) {
+    const { allowed, retryAfterMs } = await store.take(key, limit, now);
+    if (!allowed) {
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: `Too many requests, try again in ${Math.ceil(retryAfterMs / 1000)} seconds`,
+        cause: new RateLimitExceededError(retryAfterMs),
+      });
+    }
+  }
+}
+
+/**
+ * How long a failed call asks the client to wait, `null` unless it was rate limited
+ */
+export function retryAfterMsOf(error: TRPCError) {
+  return error.cause instanceof RateLimitExceededError
+    ? error.cause.retryAfterMs
+    : null;
+}
+
+/**
+ * Adds a `Retry-After` header to the response of `responseMeta` when a call in the batch was rate limited
+ */
+export function withRetryAfter(
+  responseMeta: ResponseMetaFn<AppRouter>,
+): ResponseMetaFn<AppRouter> {
+  return (opts) => {
+    const meta: ResponseMeta = responseMeta(opts);
+    const retryAfterMs = Math.max(
+      0,
+      ...opts.errors.map((error) => retryAfterMsOf(error) ?? 0),
+    );
+    if (retryAfterMs === 0) {
+      return meta;
+    }
+    const headers = new Headers(
+      meta.headers instanceof Headers ? meta.headers : undefined,
+    );
+    if (meta.headers && !(meta.headers instanceof Headers)) {
+      for (const [name, value] of Object.entries(meta.headers)) {
+        for (const item of [value ?? []].flat()) {
+          headers.append(name, item);
+        }
+      }
+    }
+    headers.set('retry-after', String(Math.ceil(retryAfterMs / 1000)));
+    return { ...meta, headers };
+  };
+}
@@ -0,0 +1,193 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { describe, expect, test } from 'vitest';
+import { createContext } from './context';
+import { API_DOCUMENT, generateOpenApiDocument } from './openapi';
+import { createRestHandler } from './rest';
+import { appRouter } from './routers/_app';
+import { createSessionToken } from './session';
+import { createTestSession } from './testUtils';
+
+const handler = createRestHandler({
+  router: appRouter,
+  basePath: '/api/v1',
+  createContext,
+  document: API_DOCUMENT,
+});
+
+/**
+ * Calls the handler like Next.js does, with the body already parsed and a response that keeps what was sent
+ */
+async function callRest(
+  method: string,
+  url: string,
+  opts: { body?: unknown; sessionToken?: string } = {},
+) {
+  const headers: Record<string, string> = {};
+  const res = {
+    statusCode: 200,
+    body: null as unknown,
+    headers,
+    getHeader: (name: string) => headers[name.toLowerCase()],
+    setHeader(name: string, value: string) {
+      headers[name.toLowerCase()] = value;
+      return res;
+    },
+    appendHeader(name: string, value: string) {
+      headers[name.toLowerCase()] = value;
+      return res;
+    },
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = JSON.parse(JSON.stringify(body));
+    },
+  };
+  const req = {
+    method,
+    url,
+    headers: {},
+    body: opts.body,
+    cookies: opts.sessionToken ? { session: opts.sessionToken } : {},
+    socket: { remoteAddress: '127.0.0.1' },
+  };
+  await handler(
+    req as unknown as NextApiRequest,
+    res as unknown as NextApiResponse,
+  );
+  return res;
+}
+
+async function signIn() {
+  const { user } = await createTestSession();
+  return { user, sessionToken: createSessionToken(user.id) };
+}
+
+describe('generateOpenApiDocument', () => {
+  test('documents the procedures that opted in', () => {
+    const document = generateOpenApiDocument(appRouter, {
+      ...API_DOCUMENT,
+      baseUrl: 'http://localhost:3000/api/v1',
+    });
+    expect(document.openapi).toBe('3.1.0');
+    expect(Object.keys(document.paths)).toEqual(['/posts', '/posts/{id}']);
+
+    const list = document.paths['/posts'].get;
+    expect(list.operationId).toBe('post.list');
+    expect(list.parameters).toContainEqual({
+      name: 'cursor',
+      in: 'query',
+      required: false,
+      schema: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+    });
+    // not a string, so it is sent as JSON
+    expect(list.parameters).toContainEqual(
+      expect.objectContaining({ name: 'filter', content: expect.anything() }),
+    );
+
+    const byId = document.paths['/posts/{id}'].get;
+    expect(byId.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+    ]);
+
+    expect(byId.responses[200].content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/PostWithHtmlDTO',
+    });
+    expect(document.components.schemas.PostDTO).toMatchObject({
+      additionalProperties: false,
+      properties: {
+        createdAt: { type: 'string', format: 'date-time' },
+        tags: { type: 'array', items: { $ref: '#/components/schemas/TagDTO' } },
+      },
+    });
+
+    const add = document.paths['/posts'].post;
+    expect(add.security).toEqual([{ sessionCookie: [] }]);
+    expect(add.responses).toHaveProperty('201');
+    expect(add.requestBody?.content['application/json'].schema).toMatchObject({
+      required: ['title', 'text'],
+      properties: {
+        publishAt: {
+          anyOf: [{ type: 'string', format: 'date-time' }, { type: 'null' }],
+        },
+      },
+    });
+  });
+});
+
+describe('REST handler', () => {
+  test('adds a post and reads it back', async () => {
+    const { user, sessionToken } = await signIn();
+    const created = await callRest('POST', '/api/v1/posts', {
+      body: { title: 'rest post', text: 'hello from REST', tags: ['rest'] },
+      sessionToken,
+    });
+    expect(created.statusCode).toBe(201);
+    expect(created.body).toMatchObject({
+      title: 'rest post',
+      author: { id: user.id },
+      tags: [{ name: 'rest' }],
+    });
+    const { id, createdAt } = created.body as { id: string; createdAt: string };
+    expect(new Date(createdAt).toISOString()).toBe(createdAt);
+
+    const byId = await callRest('GET', `/api/v1/posts/${id}`);
+    expect(byId.statusCode).toBe(200);
+    expect(byId.body).toMatchObject({ id, html: '<p>hello from REST</p>' });
+    expect(byId.headers['cache-control']).toContain('s-maxage=60');
+
+    const list = await callRest(
+      'GET',
+      `/api/v1/posts?limit=10&filter=${encodeURIComponent(
+        JSON.stringify({
+          authorId: user.id,
+          createdAfter: '2000-01-01T00:00:00Z',
+        }),
+      )}`,
+    );
+    expect(list.statusCode).toBe(200);
+    expect(list.body).toMatchObject({ items: [{ id }] });
+  });
+
+  test('answers errors with a status and code', async () => {
+    expect(
+      await callRest('POST', '/api/v1/posts', {
+        body: { title: 'rest post', text: 'hello' },
+      }),
+    ).toMatchObject({ statusCode: 401, body: { code: 'UNAUTHORIZED' } });
+
+    const { sessionToken } = await signIn();
+    const invalid = await callRest('POST', '/api/v1/posts', {
+      body: { title: '', text: 'hello' },
+      sessionToken,
+    });
+    expect(invalid).toMatchObject({
+      statusCode: 400,
+      body: { code: 'BAD_REQUEST', issues: [{ path: ['title'] }] },
+    });
+
+    expect(await callRest('GET', '/api/v1/posts/missing')).toMatchObject({
+      statusCode: 404,
+      body: { code: 'NOT_FOUND' },
+    });
+    expect(await callRest('GET', '/api/v1/comments')).toMatchObject({
+      statusCode: 404,
+    });
+    expect(await callRest('GET', '/api/v1/posts/%E0')).toMatchObject({
+      statusCode: 400,
+      body: { code: 'BAD_REQUEST' },
+    });
+    const wrongMethod = await callRest('DELETE', '/api/v1/posts');
+    expect(wrongMethod.statusCode).toBe(405);
+    expect(wrongMethod.headers.allow).toBe('GET, POST');
+  });
+
+  test('serves the OpenAPI document', async () => {
+    const res = await callRest('GET', '/api/v1/openapi.json');
+    expect(res.body).toMatchObject({
+      info: { title: API_DOCUMENT.title },
+      servers: [{ url: 'http://localhost:3000/api/v1' }],
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Serves procedures with `openapi` in their meta as REST endpoints, see `./openapi.ts`.
+ * Calls go through the same middlewares as tRPC calls, only the encoding differs:
+ * plain JSON without the transformer, inputs from the path, query and body, errors as `{ code, message }`.
+ */
+import type { ProcedureType } from '@trpc/server';
+import { getTRPCErrorFromUnknown, TRPCError } from '@trpc/server';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
+import { cacheControlOf } from './cache';
+import type { Context } from './context';
+import { env } from './env';
+import type { OpenApiDocumentOptions, OpenApiProcedure } from './openapi';
+import {
+  acceptsString,
+  generateOpenApiDocument,
+  openApiProcedures,
+  reviveDates,
+} from './openapi';
+import { retryAfterMsOf } from './rateLimit';
+import type { AppRouter } from './routers/_app';
+import type { Meta } from './trpc';
+import { createCallerFactory } from './trpc';
+
+export interface RestHandlerOptions {
+  router: AppRouter;
+  /**
+   * Where the handler is mounted, e.g. `/api/v1`
+   */
+  basePath: string;
+  createContext: (opts: {
+    req: NextApiRequest;
+    res: NextApiResponse;
+  }) => Promise<Context>;
+  onError?: (opts: {
+    error: TRPCError;
+    ctx: Context | undefined;
+    path: string | undefined;
+    type: ProcedureType | 'unknown';
+    input: unknown;
+  }) => void;
+  /**
+   * The OpenAPI document is served at `<basePath>/openapi.json`
+   */
+  document: Omit<OpenApiDocumentOptions, 'baseUrl'>;
+}
+
+/**
+ * Finds the procedure for a request path, `params` are the values of the path's `{name}` segments
+ * @throws `BAD_REQUEST` if a segment isn't valid percent-encoding
+ */
+function matchRoute(procedures: OpenApiProcedure[], path: string) {
+  const segments = path
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => {
+      try {
+        return decodeURIComponent(segment);
+      } catch (cause) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Malformed path segment '${segment}'`,
+          cause,
+        });
+      }
+    });
+  return procedures.flatMap((item) => {
+    const templateSegments = item.operation.path.split('/').filter(Boolean);
+    if (templateSegments.length !== segments.length) {
+      return [];
+    }
+    const params: Record<string, string> = {};
+    for (const [index, template] of templateSegments.entries()) {
+      const segment = segments[index];
+      const param = /^\{(\w+)\}$/.exec(template)?.[1];
+      if (param) {
+        params[param] = segment;
+      } else if (template !== segment) {
+        return [];
+      }
+    }
+    return { item, params };
+  });
+}
+
+/**
+ * The procedure's input from the path parameters plus the query string or the JSON body
+ */
+function inputOf(
+  item: OpenApiProcedure,
+  req: NextApiRequest,
+  url: URL,
+  params: Record<string, string>,
+) {
+  if (!item.input) {
+    return undefined;
+  }
+  const fields: Record<string, unknown> = {};
+  if (['POST', 'PUT', 'PATCH'].includes(item.operation.method)) {
+    if (req.body && typeof req.body === 'object') {
+      Object.assign(fields, req.body);
+    }
+  } else {
+    for (const [name, value] of url.searchParams) {
+      const schema = item.input.properties?.[name];
+      fields[name] = acceptsString(schema) ? value : parseJson(value);
+    }
+  }
+  return reviveDates(item.input, { ...fields, ...params });
+}
+
+/**
+ * Values that aren't JSON are passed on as they are, so validation can tell what's wrong with them
+ */
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function sendError(res: NextApiResponse, error: TRPCError) {
+  const retryAfterMs = retryAfterMsOf(error);
+  if (retryAfterMs) {
+    res.setHeader('retry-after', String(Math.ceil(retryAfterMs / 1000)));
+  }
+  res.setHeader('cache-control', 'no-store');
+  res.status(getHTTPStatusCodeFromError(error)).json({
+    code: error.code,
+    message: error.message,
+    ...(error.code === 'BAD_REQUEST' &&
+      error.cause instanceof z.ZodError && { issues: error.cause.issues }),
+  });
+}
+
+export function createRestHandler(opts: RestHandlerOptions): NextApiHandler {
+  const { router, basePath, createContext, onError } = opts;
+  const procedures = openApiProcedures(router);
+  const createCaller = createCallerFactory(router);
+
+  return async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const path = url.pathname.slice(basePath.length) || '/';
+
+    if (path === '/openapi.json' && req.method === 'GET') {
+      res.json(
+        generateOpenApiDocument(router, {
+          ...opts.document,
+          baseUrl: new URL(basePath, env.APP_URL).toString(),
+        }),
+      );
+      return;
+    }
+
+    let matches;
+    try {
+      matches = matchRoute(procedures, path);
+    } catch (cause) {
+      sendError(res, getTRPCErrorFromUnknown(cause));
+      return;
+    }
+    const match = matches.find(
+      ({ item }) => item.operation.method === req.method,
+    );
+    if (!match) {
+      if (matches.length > 0) {
+        res.setHeader(
+          'allow',
+          matches.map(({ item }) => item.operation.method).join(', '),
+        );
+      }
+      sendError(
+        res,
+        new TRPCError({
+          code: matches.length > 0 ? 'METHOD_NOT_SUPPORTED' : 'NOT_FOUND',
+          message: `No endpoint at ${req.method} ${path}`,
+        }),
+      );
+      return;
+    }
+
+    const { item, params } = match;
+    const { type } = item.procedure._def;
+    let ctx: Context | undefined;
+    let input: unknown;
+    try {
+      ctx = await createContext({ req, res });
+      input = inputOf(item, req, url, params);
+      // the caller is a proxy with a function for every procedure path
+      const call = item.path
+        .split('.')
+        .reduce<unknown>(
+          (target, key) => (target as Record<string, unknown>)[key],
+          createCaller(ctx),
+        ) as (input: unknown) => Promise<unknown>;
+      const data = await call(input);
+
+      const cache = (item.procedure._def.meta as Meta | undefined)?.cache;
+      res.setHeader(
+        'cache-control',
+        cache && type === 'query' && !ctx.session
+          ? cacheControlOf(cache)
+          : 'no-store',
+      );
+      res.status(item.operation.successStatus ?? 200).json(data);
+    } catch (cause) {
+      const error = getTRPCErrorFromUnknown(cause);
+      onError?.({ error, ctx, path: item.path, type, input });
+      sendError(res, error);
+    }
+  };
+}
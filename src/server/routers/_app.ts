@@ -2,12 +2,27 @@
  * This file contains the root router of your tRPC-backend
  */
 import { createCallerFactory, publicProcedure, router } from '../trpc';
+import { adminRouter } from './admin';
+import { authRouter } from './auth';
+import { commentRouter } from './comment';
 import { postRouter } from './post';
+import { systemRouter } from './system';
+import { tagRouter } from './tag';
 
 export const appRouter = router({
-  healthcheck: publicProcedure.query(() => 'yay!'),
+  /**
+   * Kept for existing monitors, `system.health` and `system.ready` tell more
+   */
+  healthcheck: publicProcedure
+    .meta({ cache: { sMaxAge: 1 } })
+    .query(() => 'yay!'),
 
+  admin: adminRouter,
+  auth: authRouter,
+  comment: commentRouter,
   post: postRouter,
+  system: systemRouter,
+  tag: tagRouter,
 });
 
 export const createCaller = createCallerFactory(appRouter);
@@ -0,0 +1,25 @@
+/**
+ * Tools for the people running the site, see `adminProcedure`
+ */
+import { z } from 'zod';
+import { errorLog } from '~/server/errorReporter';
+import { adminProcedure, router } from '../trpc';
+
+export const adminRouter = router({
+  /**
+   * Unexpected errors grouped by fingerprint, most recently seen first
+   */
+  errors: adminProcedure.query(async () => {
+    const items = await errorLog.list();
+    return { items };
+  }),
+  /**
+   * Forgets an error group, it shows up again if the error comes back
+   */
+  resolveError: adminProcedure
+    .input(z.object({ fingerprint: z.string() }))
+    .mutation(async ({ input }) => {
+      await errorLog.resolve(input.fingerprint);
+      return { fingerprint: input.fingerprint };
+    }),
+});
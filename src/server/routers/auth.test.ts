@@ -0,0 +1,68 @@
+/**
+ * Integration tests for the `auth` router
+ */
+import { test, expect, vi } from 'vitest';
+import { createContextInner } from '../context';
+import { outbox } from '../mailer';
+import { createSessionToken, readSessionToken } from '../session';
+import { createCaller } from './_app';
+
+async function createAnonymousCaller() {
+  const setSessionCookie = vi.fn<(token: string | null) => void>();
+  const ctx = await createContextInner({ session: null, setSessionCookie });
+  return { caller: createCaller(ctx), setSessionCookie };
+}
+
+test('sign up and sign in with a password', async () => {
+  const email = `Auth-Test-${crypto.randomUUID()}@Example.com`;
+  const { caller, setSessionCookie } = await createAnonymousCaller();
+
+  const user = await caller.auth.signUp({ email, password: 'hunter2hunter2' });
+  expect(user.email).toBe(email.toLowerCase());
+  expect(readSessionToken(setSessionCookie.mock.lastCall![0]!)).toMatchObject({
+    userId: user.id,
+  });
+
+  await expect(
+    caller.auth.signUp({ email, password: 'hunter2hunter2' }),
+  ).rejects.toMatchObject({ code: 'CONFLICT' });
+  await expect(
+    caller.auth.signIn({ email, password: 'wrong password' }),
+  ).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+
+  const signedIn = await caller.auth.signIn({
+    email,
+    password: 'hunter2hunter2',
+  });
+  expect(signedIn).toEqual(user);
+});
+
+test('sign in with a single-use magic link', async () => {
+  const email = `magic-${crypto.randomUUID()}@example.com`;
+  const { caller, setSessionCookie } = await createAnonymousCaller();
+
+  await caller.auth.requestMagicLink({ email });
+  const mail = outbox.filter((message) => message.to === email).pop();
+  const token = new URL(/http\S+/.exec(mail!.text)![0]).searchParams.get(
+    'token',
+  )!;
+
+  const user = await caller.auth.verifyMagicLink({ token });
+  expect(user.email).toBe(email);
+  expect(setSessionCookie).toHaveBeenCalledOnce();
+
+  await expect(caller.auth.verifyMagicLink({ token })).rejects.toMatchObject({
+    code: 'UNAUTHORIZED',
+  });
+});
+
+test('session tokens reject tampering and expiry', async () => {
+  const token = createSessionToken('user-id');
+  const [payload, signature] = token.split('.');
+
+  expect(readSessionToken(token)).toMatchObject({ userId: 'user-id' });
+  expect(readSessionToken(`${payload}x.${signature}`)).toBeNull();
+  expect(
+    readSessionToken(token, new Date(Date.now() + 1000 * 60 * 60 * 24 * 31)),
+  ).toBeNull();
+});
@@ -0,0 +1,162 @@
+/**
+ * Sign-up and sign-in with a password or a magic link sent by mail
+ */
+import { createHash, randomBytes } from 'node:crypto';
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { env } from '~/server/env';
+import { mailer } from '~/server/mailer';
+import { hashPassword, verifyPassword } from '~/server/password';
+import { prisma } from '~/server/prisma';
+import { createSessionToken } from '~/server/session';
+import { protectedProcedure, publicProcedure, router } from '../trpc';
+
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Slows down guessing passwords and magic link tokens from one address
+ */
+const guessingRateLimit = {
+  ip: { capacity: 10, windowMs: 15 * 60 * 1000 },
+};
+
+/**
+ * Keeps one address from creating many accounts or sending lots of mail
+ */
+const creatingRateLimit = {
+  ip: { capacity: 5, windowMs: 15 * 60 * 1000 },
+};
+
+const sessionUserSelect = {
+  id: true,
+  email: true,
+  name: true,
+} as const;
+
+const email = z
+  .email()
+  .max(254)
+  .transform((value) => value.trim().toLowerCase());
+
+const password = z.string().min(8).max(128);
+
+function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export const authRouter = router({
+  me: publicProcedure.query(({ ctx }) => {
+    return ctx.session?.user ?? null;
+  }),
+  signUp: publicProcedure
+    .meta({ rateLimit: creatingRateLimit })
+    .input(
+      z.object({
+        email,
+        password,
+        name: z.string().min(1).max(64).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existing = await prisma.user.findUnique({
+        where: { email: input.email },
+        select: { id: true },
+      });
+      if (existing) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'An account with this email already exists',
+        });
+      }
+      const user = await prisma.user.create({
+        data: {
+          email: input.email,
+          name: input.name,
+          passwordHash: await hashPassword(input.password),
+        },
+        select: sessionUserSelect,
+      });
+      ctx.setSessionCookie(createSessionToken(user.id));
+      return user;
+    }),
+  signIn: publicProcedure
+    .meta({ rateLimit: guessingRateLimit })
+    .input(
+      z.object({
+        email,
+        password: z.string().min(1),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const user = await prisma.user.findUnique({
+        where: { email: input.email },
+        select: { ...sessionUserSelect, passwordHash: true },
+      });
+      const valid =
+        !!user?.passwordHash &&
+        (await verifyPassword(input.password, user.passwordHash));
+      if (!user || !valid) {
+        // same error for unknown users and wrong passwords to not leak which emails exist
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Invalid email or password',
+        });
+      }
+      ctx.setSessionCookie(createSessionToken(user.id));
+      const { passwordHash: _passwordHash, ...sessionUser } = user;
+      return sessionUser;
+    }),
+  requestMagicLink: publicProcedure
+    .meta({ rateLimit: creatingRateLimit })
+    .input(z.object({ email }))
+    .mutation(async ({ input }) => {
+      const user = await prisma.user.upsert({
+        where: { email: input.email },
+        create: { email: input.email },
+        update: {},
+        select: { id: true },
+      });
+      const token = randomBytes(32).toString('base64url');
+      await prisma.magicLinkToken.create({
+        data: {
+          tokenHash: hashToken(token),
+          userId: user.id,
+          expiresAt: new Date(Date.now() + MAGIC_LINK_TTL_MS),
+        },
+      });
+      const url = new URL('/auth/verify', env.APP_URL);
+      url.searchParams.set('token', token);
+      await mailer.send({
+        to: input.email,
+        subject: 'Your sign-in link',
+        text: `Sign in by opening this link, it expires in 15 minutes:\n\n${url.toString()}`,
+      });
+      // never tell the client whether the email belongs to an existing user
+      return { sent: true };
+    }),
+  verifyMagicLink: publicProcedure
+    .meta({ rateLimit: guessingRateLimit })
+    .input(z.object({ token: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      const tokenHash = hashToken(input.token);
+      // tokens are single use, so delete before checking the expiry
+      const magicLink = await prisma.magicLinkToken
+        .delete({
+          where: { tokenHash },
+          select: { expiresAt: true, user: { select: sessionUserSelect } },
+        })
+        .catch(() => null);
+      if (!magicLink || magicLink.expiresAt.getTime() <= Date.now()) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'This sign-in link is invalid or has expired',
+        });
+      }
+      ctx.setSessionCookie(createSessionToken(magicLink.user.id));
+      return magicLink.user;
+    }),
+  signOut: protectedProcedure.mutation(({ ctx }) => {
+    ctx.setSessionCookie(null);
+    return { signedOut: true };
+  }),
+});
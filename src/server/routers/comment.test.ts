@@ -0,0 +1,100 @@
+/**
+ * Integration tests for the `comment` router
+ */
+import { test, expect } from 'vitest';
+import { createContextInner } from '../context';
+import { createSignedInCaller } from '../testUtils';
+import { createCaller } from './_app';
+
+test('threaded comments are paged by top-level comment', async () => {
+  const caller = await createSignedInCaller();
+  const post = await caller.post.add({ title: 'comments', text: 'text' });
+
+  const first = await caller.comment.add({ postId: post.id, text: 'first' });
+  const reply = await caller.comment.add({
+    postId: post.id,
+    parentId: first.id,
+    text: 'reply',
+  });
+  const nested = await caller.comment.add({
+    postId: post.id,
+    parentId: reply.id,
+    text: 'nested reply',
+  });
+  const second = await caller.comment.add({ postId: post.id, text: 'second' });
+
+  const page1 = await caller.comment.list({ postId: post.id, limit: 1 });
+  const page2 = await caller.comment.list({
+    postId: post.id,
+    limit: 1,
+    cursor: page1.nextCursor,
+  });
+  expect(page2.nextCursor).toBeUndefined();
+
+  // each page holds one top-level comment along with its whole thread
+  const pages = [page1, page2].map((page) => page.items.map((item) => item.id));
+  expect(pages).toContainEqual([first.id, reply.id, nested.id]);
+  expect(pages).toContainEqual([second.id]);
+  expect(nested.parentId).toBe(reply.id);
+
+  // deleting a comment deletes its replies
+  await caller.comment.delete({ id: reply.id });
+  const afterDelete = await caller.comment.list({ postId: post.id });
+  expect(afterDelete.items.map((item) => item.id).sort()).toEqual(
+    [first.id, second.id].sort(),
+  );
+});
+
+test('replies must belong to the same post and only authors may delete', async () => {
+  const caller = await createSignedInCaller();
+  const someoneElse = await createSignedInCaller();
+  const post = await caller.post.add({ title: 'a', text: 'a' });
+  const otherPost = await caller.post.add({ title: 'b', text: 'b' });
+  const comment = await caller.comment.add({ postId: post.id, text: 'hi' });
+
+  await expect(
+    caller.comment.add({
+      postId: otherPost.id,
+      parentId: comment.id,
+      text: 'wrong post',
+    }),
+  ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  await expect(
+    someoneElse.comment.delete({ id: comment.id }),
+  ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+});
+
+test('comments are only visible along with their post', async () => {
+  const author = await createSignedInCaller();
+  const someoneElse = await createSignedInCaller();
+  const anonymous = createCaller(await createContextInner({ session: null }));
+  const draft = await author.post.add({
+    title: 'draft',
+    text: 'draft',
+    status: 'draft',
+  });
+
+  await author.comment.add({ postId: draft.id, text: 'note to self' });
+  expect((await author.comment.list({ postId: draft.id })).items).toHaveLength(
+    1,
+  );
+  for (const caller of [someoneElse, anonymous]) {
+    await expect(
+      caller.comment.list({ postId: draft.id }),
+    ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  }
+  await expect(
+    someoneElse.comment.add({ postId: draft.id, text: 'hi' }),
+  ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+  // trashed posts take their comments with them, even for their author
+  const post = await author.post.add({ title: 'trashed', text: 'trashed' });
+  await author.comment.add({ postId: post.id, text: 'hi' });
+  await author.post.delete({ id: post.id, updatedAt: post.updatedAt });
+  await expect(author.comment.list({ postId: post.id })).rejects.toMatchObject({
+    code: 'NOT_FOUND',
+  });
+  await expect(
+    author.comment.add({ postId: post.id, text: 'hi again' }),
+  ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+});
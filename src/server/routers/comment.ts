@@ -0,0 +1,157 @@
+/**
+ * Threaded comments on posts
+ */
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import type { Prisma } from '~/generated/prisma/client';
+import { prisma } from '~/server/prisma';
+import { protectedProcedure, publicProcedure, router } from '../trpc';
+import { isVisibleTo } from './post';
+
+/**
+ * Default selector for Comment, see `defaultPostSelect`
+ */
+const defaultCommentSelect = {
+  id: true,
+  text: true,
+  parentId: true,
+  createdAt: true,
+  author: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.CommentSelect;
+
+export const commentRouter = router({
+  /**
+   * Pages through the top-level comments of a post, oldest first.
+   * Every page also contains all replies to its top-level comments, use `parentId` to build the threads.
+   * Comments are only visible along with their post.
+   */
+  list: publicProcedure
+    .input(
+      z.object({
+        postId: z.string(),
+        limit: z.number().min(1).max(100).nullish(),
+        cursor: z.string().nullish(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const limit = input.limit ?? 20;
+      const { postId, cursor } = input;
+      const post = await prisma.post.findUnique({
+        where: { id: postId },
+        select: { status: true, author: { select: { id: true } } },
+      });
+      if (!post || !isVisibleTo(post, ctx.session?.user.id)) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `No post with id '${postId}'`,
+        });
+      }
+
+      const roots = await prisma.comment.findMany({
+        select: defaultCommentSelect,
+        // get an extra item at the end which we'll use as next cursor
+        take: limit + 1,
+        where: { postId, parentId: null },
+        cursor: cursor ? { id: cursor } : undefined,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      });
+      let nextCursor: typeof cursor | undefined = undefined;
+      if (roots.length > limit) {
+        const nextItem = roots.pop()!;
+        nextCursor = nextItem.id;
+      }
+
+      const replies = await prisma.comment.findMany({
+        select: defaultCommentSelect,
+        where: { rootId: { in: roots.map((root) => root.id) } },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      });
+
+      return {
+        items: [...roots, ...replies],
+        nextCursor,
+      };
+    }),
+  add: protectedProcedure
+    .meta({
+      rateLimit: {
+        ip: { capacity: 30, windowMs: 60_000 },
+        user: { capacity: 10, windowMs: 60_000 },
+      },
+    })
+    .input(
+      z.object({
+        postId: z.string(),
+        parentId: z.string().optional(),
+        text: z.string().trim().min(1).max(2000),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { postId, parentId, text } = input;
+      const post = await prisma.post.findUnique({
+        where: { id: postId },
+        select: { status: true, author: { select: { id: true } } },
+      });
+      if (!post || !isVisibleTo(post, ctx.session.user.id)) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `No post with id '${postId}'`,
+        });
+      }
+
+      let rootId: string | null = null;
+      if (parentId) {
+        const parent = await prisma.comment.findUnique({
+          where: { id: parentId },
+          select: { postId: true, rootId: true },
+        });
+        if (parent?.postId !== postId) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: `No comment with id '${parentId}' on this post`,
+          });
+        }
+        rootId = parent.rootId ?? parentId;
+      }
+
+      return prisma.comment.create({
+        data: {
+          postId,
+          parentId,
+          rootId,
+          text,
+          authorId: ctx.session.user.id,
+        },
+        select: defaultCommentSelect,
+      });
+    }),
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { id } = input;
+      const comment = await prisma.comment.findUnique({
+        where: { id },
+        select: { authorId: true },
+      });
+      if (!comment) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `No comment with id '${id}'`,
+        });
+      }
+      if (comment.authorId !== ctx.session.user.id) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Only the author can delete this comment',
+        });
+      }
+      // replies are deleted along with it
+      await prisma.comment.delete({ where: { id } });
+      return { id };
+    }),
+});
@@ -1,15 +1,19 @@
 /**
  * Integration test example for the `post` router
  */
-import { test, expect } from 'vitest';
+import { describe, test, expect } from 'vitest';
 import type { inferProcedureInput } from '@trpc/server';
+import { fetchRequestHandler } from '@trpc/server/adapters/fetch';
+import { postDTOSchema } from '~/utils/postDTO';
+import { transformer } from '~/utils/transformer';
 import { createContextInner } from '../context';
+import { prisma } from '../prisma';
+import { createSignedInCaller, createTestSession } from '../testUtils';
 import type { AppRouter } from './_app';
-import { createCaller } from './_app';
+import { appRouter, createCaller } from './_app';
 
 test('add and get post', async () => {
-  const ctx = await createContextInner({});
-  const caller = createCaller(ctx);
+  const caller = await createSignedInCaller();
 
   const input: inferProcedureInput<AppRouter['post']['add']> = {
     text: 'hello test',
@@ -21,3 +25,699 @@ test('add and get post', async () => {
 
   expect(byId).toMatchObject(input);
 });
+
+test('post procedures return what their output schemas describe', async () => {
+  const caller = await createSignedInCaller();
+  const added = await caller.post.add({
+    title: 'dto',
+    text: 'checked',
+    tags: ['dto'],
+  });
+  expect(postDTOSchema.parse(added)).toEqual(added);
+  expect(await caller.post.byId({ id: added.id })).toMatchObject({
+    ...added,
+    html: '<p>checked</p>',
+  });
+});
+
+test('update and delete post with a version check', async () => {
+  const caller = await createSignedInCaller();
+
+  const post = await caller.post.add({
+    text: 'hello update',
+    title: 'hello update',
+  });
+
+  const updated = await caller.post.update({
+    id: post.id,
+    updatedAt: post.updatedAt,
+    data: { title: 'updated title' },
+  });
+  expect(updated).toMatchObject({ title: 'updated title', text: post.text });
+
+  // the original copy is now stale
+  await expect(
+    caller.post.update({
+      id: post.id,
+      updatedAt: post.updatedAt,
+      data: { title: 'stale title' },
+    }),
+  ).rejects.toMatchObject({ code: 'CONFLICT' });
+  await expect(
+    caller.post.delete({ id: post.id, updatedAt: post.updatedAt }),
+  ).rejects.toMatchObject({ code: 'CONFLICT' });
+
+  await caller.post.delete({ id: post.id, updatedAt: updated.updatedAt });
+  await expect(caller.post.byId({ id: post.id })).rejects.toMatchObject({
+    code: 'NOT_FOUND',
+  });
+  await expect(
+    caller.post.delete({ id: post.id, updatedAt: updated.updatedAt }),
+  ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+});
+
+test('adding a post requires a session', async () => {
+  const ctx = await createContextInner({ session: null });
+  const caller = createCaller(ctx);
+
+  await expect(
+    caller.post.add({ title: 'anonymous', text: 'anonymous' }),
+  ).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+});
+
+test('only the author can modify a post', async () => {
+  const author = await createSignedInCaller();
+  const someoneElse = await createSignedInCaller();
+
+  const post = await author.post.add({ title: 'mine', text: 'mine' });
+  expect(post.author).toMatchObject({ id: expect.any(String) });
+
+  await expect(
+    someoneElse.post.update({
+      id: post.id,
+      updatedAt: post.updatedAt,
+      data: { title: 'not yours' },
+    }),
+  ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  await expect(
+    someoneElse.post.delete({ id: post.id, updatedAt: post.updatedAt }),
+  ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+  await author.post.delete({ id: post.id, updatedAt: post.updatedAt });
+});
+
+test('long drafts are previewed from the request body', async () => {
+  const session = await createTestSession();
+  const text = 'long draft '.repeat(9_000);
+
+  const res = await fetchRequestHandler({
+    endpoint: '/api/trpc',
+    req: new Request('http://localhost/api/trpc/post.preview', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(transformer.serialize({ text })),
+    }),
+    router: appRouter,
+    createContext: () => createContextInner({ session }),
+  });
+
+  expect(res.status).toBe(200);
+  const body = await res.json();
+  const { html }: { html: string } = transformer.deserialize(body.result.data);
+  expect(html).toContain(text.trim());
+});
+
+test('search posts by title and text', async () => {
+  const caller = await createSignedInCaller();
+  const word = `zebra${crypto.randomUUID().slice(0, 8)}`;
+
+  const inTitle = await caller.post.add({ title: word, text: 'title match' });
+  const inText = await caller.post.add({
+    title: 'text match',
+    text: `a post mentioning ${word} in its text`,
+  });
+  await caller.post.add({ title: 'no match', text: 'nothing to see here' });
+
+  const firstPage = await caller.post.search({ query: word, limit: 1 });
+  // title matches are weighted higher
+  expect(firstPage.items.map((item) => item.id)).toEqual([inTitle.id]);
+  expect(firstPage.items[0].titleHighlights).toEqual([
+    { text: word, highlight: true },
+  ]);
+
+  const secondPage = await caller.post.search({
+    query: word,
+    limit: 1,
+    cursor: firstPage.nextCursor,
+  });
+  expect(secondPage.items.map((item) => item.id)).toEqual([inText.id]);
+  expect(secondPage.items[0].textHighlights).toContainEqual({
+    text: word,
+    highlight: true,
+  });
+  expect(secondPage.nextCursor).toBeUndefined();
+
+  await expect(
+    caller.post.search({ query: 'other', cursor: firstPage.nextCursor }),
+  ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  await expect(
+    caller.post.search({ query: word, cursor: inText.id }),
+  ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+});
+
+test('search pages go on when posts around the cursor change', async () => {
+  const caller = await createSignedInCaller();
+  const word = `okapi${crypto.randomUUID().slice(0, 8)}`;
+  const posts = [];
+  for (const title of ['first', 'second', 'third']) {
+    posts.push(await caller.post.add({ title, text: `about ${word}` }));
+  }
+  const ids = (await caller.post.search({ query: word })).items.map(
+    (item) => item.id,
+  );
+  expect(ids).toHaveLength(3);
+
+  const firstPage = await caller.post.search({ query: word, limit: 1 });
+  // the first post of the next page stops matching, the one of this page is trashed
+  for (const id of ids.slice(0, 2)) {
+    const post = posts.find((item) => item.id === id)!;
+    if (id === ids[0]) {
+      await caller.post.delete({ id, updatedAt: post.updatedAt });
+    } else {
+      await caller.post.update({
+        id,
+        updatedAt: post.updatedAt,
+        data: { text: 'about something else' },
+      });
+    }
+  }
+
+  const secondPage = await caller.post.search({
+    query: word,
+    limit: 1,
+    cursor: firstPage.nextCursor,
+  });
+  expect(secondPage.items.map((item) => item.id)).toEqual([ids[2]]);
+});
+
+test('filter and sort the post list', async () => {
+  const caller = await createSignedInCaller();
+  const other = await createSignedInCaller();
+  const prefix = `sorted-${crypto.randomUUID().slice(0, 8)}`;
+
+  const created = [];
+  for (const suffix of ['c', 'a', 'b', 'a']) {
+    created.push(
+      await caller.post.add({ title: `${prefix}-${suffix}`, text: 'text' }),
+    );
+  }
+  const authorId = created[0].author!.id;
+  await other.post.add({ title: `${prefix}-other`, text: 'text' });
+
+  const titles: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await caller.post.list({
+      limit: 3,
+      cursor,
+      filter: { authorId, titleStartsWith: prefix.toUpperCase() },
+      sort: { field: 'title', direction: 'asc' },
+    });
+    titles.push(...page.items.map((item) => item.title));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+
+  expect(titles).toEqual(['a', 'a', 'b', 'c'].map((s) => `${prefix}-${s}`));
+
+  const createdSince = await caller.post.list({
+    filter: { authorId, createdAfter: created[1].createdAt },
+  });
+  expect(createdSince.items.map((item) => item.id)).toEqual(
+    expect.arrayContaining(created.slice(1).map((post) => post.id)),
+  );
+  for (const item of createdSince.items) {
+    expect(item.createdAt.getTime()).toBeGreaterThanOrEqual(
+      created[1].createdAt.getTime(),
+    );
+  }
+});
+
+test('updates keep revisions that can be restored', async () => {
+  const author = await createSignedInCaller();
+  const someoneElse = await createSignedInCaller();
+
+  const v1 = await author.post.add({ title: 'v1', text: 'first text' });
+  const v2 = await author.post.update({
+    id: v1.id,
+    updatedAt: v1.updatedAt,
+    data: { title: 'v2' },
+  });
+  // no revision when neither title nor text change
+  const v3 = await author.post.update({
+    id: v1.id,
+    updatedAt: v2.updatedAt,
+    data: { title: 'v2', tags: ['history'] },
+  });
+  const v4 = await author.post.update({
+    id: v1.id,
+    updatedAt: v3.updatedAt,
+    data: { text: 'second text' },
+  });
+
+  const revisions = await someoneElse.post.revisions({ postId: v1.id });
+  expect(revisions.items).toMatchObject([
+    { title: 'v2', text: 'first text', savedAt: v3.updatedAt },
+    { title: 'v1', text: 'first text', savedAt: v1.updatedAt },
+  ]);
+
+  const [, firstRevision] = revisions.items;
+  await expect(
+    someoneElse.post.restoreRevision({
+      revisionId: firstRevision.id,
+      updatedAt: v4.updatedAt,
+    }),
+  ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  await expect(
+    author.post.restoreRevision({
+      revisionId: firstRevision.id,
+      updatedAt: v3.updatedAt,
+    }),
+  ).rejects.toMatchObject({ code: 'CONFLICT' });
+
+  const restored = await author.post.restoreRevision({
+    revisionId: firstRevision.id,
+    updatedAt: v4.updatedAt,
+  });
+  expect(restored).toMatchObject({ title: 'v1', text: 'first text' });
+
+  const afterRestore = await author.post.revisions({
+    postId: v1.id,
+    limit: 1,
+  });
+  expect(afterRestore.items).toMatchObject([
+    { title: 'v2', text: 'second text', savedAt: v4.updatedAt },
+  ]);
+  expect(afterRestore.nextCursor).toEqual(expect.any(String));
+});
+
+test('deleted posts go to the trash until restored or purged', async () => {
+  const author = await createSignedInCaller();
+  const someoneElse = await createSignedInCaller();
+  const word = `trashed${crypto.randomUUID().slice(0, 8)}`;
+
+  const post = await author.post.add({ title: word, text: word });
+  await author.post.delete({ id: post.id, updatedAt: post.updatedAt });
+
+  await expect(author.post.byId({ id: post.id })).rejects.toMatchObject({
+    code: 'NOT_FOUND',
+  });
+  const list = await author.post.list({ filter: { titleStartsWith: word } });
+  expect(list.items).toEqual([]);
+  const search = await author.post.search({ query: word });
+  expect(search.items).toEqual([]);
+
+  const trash = await author.post.trash();
+  expect(trash.items).toMatchObject([
+    { id: post.id, deletedAt: expect.any(Date), purgeAt: expect.any(Date) },
+  ]);
+  expect(trash.items[0].purgeAt.getTime()).toBeGreaterThan(Date.now());
+  expect((await someoneElse.post.trash()).items).toEqual([]);
+
+  await expect(someoneElse.post.restore({ id: post.id })).rejects.toMatchObject(
+    { code: 'FORBIDDEN' },
+  );
+  await author.post.restore({ id: post.id });
+  expect(await author.post.byId({ id: post.id })).toMatchObject({
+    title: word,
+  });
+  await expect(author.post.restore({ id: post.id })).rejects.toMatchObject({
+    code: 'NOT_FOUND',
+  });
+
+  // only trashed posts can be purged
+  await expect(author.post.purge({ id: post.id })).rejects.toMatchObject({
+    code: 'NOT_FOUND',
+  });
+  const restored = await author.post.byId({ id: post.id });
+  await author.post.delete({ id: post.id, updatedAt: restored.updatedAt });
+  await author.post.purge({ id: post.id });
+  expect((await author.post.trash()).items).toEqual([]);
+});
+
+test('posts get unique slugs that keep working after a rename', async () => {
+  const caller = await createSignedInCaller();
+  const title = `Slug ${crypto.randomUUID().slice(0, 8)}!`;
+  const base = title.slice(0, -1).toLowerCase().replace(' ', '-');
+
+  const first = await caller.post.add({ title, text: 'first' });
+  const second = await caller.post.add({ title, text: 'second' });
+  expect(first.slug).toBe(base);
+  expect(second.slug).toBe(`${base}-2`);
+
+  expect(await caller.post.bySlug({ slug: second.slug })).toMatchObject({
+    id: second.id,
+  });
+  // legacy links by id
+  expect(await caller.post.bySlug({ slug: second.id })).toMatchObject({
+    slug: second.slug,
+  });
+
+  const renamed = await caller.post.update({
+    id: first.id,
+    updatedAt: first.updatedAt,
+    data: { title: `${title} renamed` },
+  });
+  expect(renamed.slug).toBe(`${base}-renamed`);
+  expect(await caller.post.bySlug({ slug: base })).toMatchObject({
+    id: first.id,
+    slug: renamed.slug,
+  });
+
+  // the old slug still redirects, so it isn't handed out again
+  const third = await caller.post.add({ title, text: 'third' });
+  expect(third.slug).toBe(`${base}-3`);
+
+  // renaming back takes back the old slug
+  const renamedBack = await caller.post.update({
+    id: first.id,
+    updatedAt: renamed.updatedAt,
+    data: { title },
+  });
+  expect(renamedBack.slug).toBe(base);
+  expect(await caller.post.bySlug({ slug: renamed.slug })).toMatchObject({
+    id: first.id,
+  });
+
+  await expect(
+    caller.post.bySlug({ slug: `${base}-missing` }),
+  ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+});
+
+test('unpublished posts are only visible to their author', async () => {
+  const author = await createSignedInCaller();
+  const reader = await createSignedInCaller();
+  const prefix = `status-${crypto.randomUUID().slice(0, 8)}`;
+
+  const draft = await author.post.add({
+    title: `${prefix}-draft`,
+    text: 'draft',
+    status: 'draft',
+  });
+  const scheduled = await author.post.add({
+    title: `${prefix}-scheduled`,
+    text: 'scheduled',
+    status: 'scheduled',
+    publishAt: new Date(Date.now() + 60 * 60_000),
+  });
+  const published = await author.post.add({
+    title: `${prefix}-published`,
+    text: 'published',
+  });
+  expect(draft.publishAt).toBeNull();
+  expect(published).toMatchObject({
+    status: 'published',
+    publishAt: expect.any(Date),
+  });
+
+  const list = await reader.post.list({
+    filter: { titleStartsWith: prefix },
+  });
+  expect(list.items.map((item) => item.id)).toEqual([published.id]);
+
+  await expect(reader.post.byId({ id: draft.id })).rejects.toMatchObject({
+    code: 'NOT_FOUND',
+  });
+  expect(await author.post.byId({ id: draft.id })).toMatchObject({
+    status: 'draft',
+  });
+
+  const drafts = await author.post.drafts();
+  expect(drafts.items.map((item) => item.id)).toEqual([scheduled.id, draft.id]);
+
+  await expect(
+    author.post.add({ title: 'no date', text: 'no date', status: 'scheduled' }),
+  ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  await expect(
+    author.post.add({
+      title: 'future',
+      text: 'future',
+      status: 'published',
+      publishAt: new Date(Date.now() + 60 * 60_000),
+    }),
+  ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  await expect(
+    author.post.update({
+      id: draft.id,
+      updatedAt: draft.updatedAt,
+      data: {
+        status: 'published',
+        publishAt: new Date(Date.now() + 60 * 60_000),
+      },
+    }),
+  ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+
+  const publishedDraft = await author.post.update({
+    id: draft.id,
+    updatedAt: draft.updatedAt,
+    data: { status: 'published' },
+  });
+  expect(publishedDraft.publishAt).toBeInstanceOf(Date);
+  expect(await reader.post.byId({ id: draft.id })).toMatchObject({
+    status: 'published',
+  });
+});
+
+test('drafts without an author are hidden from signed out readers', async () => {
+  const anonymous = createCaller(await createContextInner({ session: null }));
+  const draft = await prisma.post.create({
+    data: {
+      slug: `authorless-${crypto.randomUUID()}`,
+      title: 'authorless draft',
+      text: 'authorless draft',
+      status: 'draft',
+    },
+  });
+
+  await expect(anonymous.post.byId({ id: draft.id })).rejects.toMatchObject({
+    code: 'NOT_FOUND',
+  });
+  await expect(
+    anonymous.post.bySlug({ slug: draft.slug }),
+  ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+});
+
+test('subscribers see posts as they are added, edited and trashed', async () => {
+  const author = await createSignedInCaller();
+  const controller = new AbortController();
+  const reader = createCaller(await createContextInner({ session: null }), {
+    signal: controller.signal,
+  });
+  const added = (await reader.post.onAdd())[Symbol.asyncIterator]();
+  const changed = (await reader.post.onChange())[Symbol.asyncIterator]();
+  const nextAdded = added.next();
+  const nextChanged = changed.next();
+
+  // drafts are only announced to their author
+  const draft = await author.post.add({
+    title: 'draft',
+    text: 'draft',
+    status: 'draft',
+  });
+  const post = await author.post.add({ title: 'live', text: 'live' });
+  // tracked with the post id, so reconnecting clients can catch up
+  expect((await nextAdded).value).toEqual([
+    post.id,
+    expect.objectContaining({ id: post.id, title: 'live' }),
+    expect.anything(),
+  ]);
+
+  const updated = await author.post.update({
+    id: post.id,
+    updatedAt: post.updatedAt,
+    data: { text: 'edited' },
+  });
+  expect((await nextChanged).value).toMatchObject({
+    id: post.id,
+    post: { text: 'edited', html: '<p>edited</p>' },
+  });
+
+  await author.post.delete({ id: post.id, updatedAt: updated.updatedAt });
+  expect((await changed.next()).value).toEqual({ id: post.id, post: null });
+
+  // announced once it goes live
+  await author.post.update({
+    id: draft.id,
+    updatedAt: draft.updatedAt,
+    data: { status: 'published' },
+  });
+  expect((await added.next()).value).toEqual([
+    draft.id,
+    expect.objectContaining({ id: draft.id, status: 'published' }),
+    expect.anything(),
+  ]);
+
+  controller.abort();
+  expect(await added.next()).toMatchObject({ done: true });
+});
+
+test('reconnecting subscribers get the posts published since their last one', async () => {
+  const caller = await createSignedInCaller();
+  const { id: authorId } = (await caller.auth.me())!;
+  // far ahead of posts added by other tests
+  const publishAt = new Date('2999-01-01T00:00:00.000Z');
+  const [lastId, tiedId] = [crypto.randomUUID(), crypto.randomUUID()].sort();
+  const scheduledId = crypto.randomUUID();
+  await prisma.post.createMany({
+    data: [
+      { id: lastId, publishAt },
+      // went live in the same instant
+      { id: tiedId, publishAt },
+      // published by the scheduler, long after it was created
+      {
+        id: scheduledId,
+        publishAt: new Date(publishAt.getTime() + 1),
+        createdAt: new Date('2000-01-01T00:00:00.000Z'),
+      },
+    ].map((post) => ({
+      ...post,
+      slug: post.id,
+      title: 'replayed',
+      text: 'replayed',
+      authorId,
+    })),
+  });
+
+  const controller = new AbortController();
+  const reader = createCaller(await createContextInner({ session: null }), {
+    signal: controller.signal,
+  });
+  try {
+    const added = (await reader.post.onAdd({ lastEventId: lastId }))[
+      Symbol.asyncIterator
+    ]();
+    for (const id of [tiedId, scheduledId]) {
+      expect((await added.next()).value).toEqual([
+        id,
+        expect.objectContaining({ id }),
+        expect.anything(),
+      ]);
+    }
+
+    controller.abort();
+    expect(await added.next()).toMatchObject({ done: true });
+  } finally {
+    // would be replayed to the next run's subscriber otherwise
+    await prisma.post.deleteMany({
+      where: { id: { in: [lastId, tiedId, scheduledId] } },
+    });
+  }
+});
+
+test('post.list only reports a previous page with posts matching the filter', async () => {
+  const caller = await createSignedInCaller();
+  const { id: authorId } = (await caller.auth.me())!;
+  const tag = `paged-${crypto.randomUUID().slice(0, 8)}`;
+  for (const title of ['tagged 1', 'tagged 2']) {
+    await caller.post.add({ title, text: 'text', tags: [tag] });
+  }
+  const filter = { authorId, tags: [tag] };
+
+  const first = await caller.post.list({ limit: 1, filter });
+  // the post at the cursor no longer matches the filter
+  const [cursorPost] = first.items;
+  await caller.post.update({
+    id: cursorPost.id,
+    updatedAt: cursorPost.updatedAt,
+    data: { tags: [] },
+  });
+
+  const second = await caller.post.list({
+    limit: 1,
+    filter,
+    cursor: first.nextCursor,
+  });
+  expect(second.items).toHaveLength(1);
+  expect(second.previousCursor).toBeUndefined();
+});
+
+describe('post.list pagination with tied timestamps', () => {
+  async function seedTiedPosts() {
+    const caller = await createSignedInCaller();
+    const { id: authorId } = (await caller.auth.me())!;
+    const createdAt = new Date('2022-03-07T12:44:25.000Z');
+    const ids = Array.from({ length: 7 }, () => crypto.randomUUID());
+    await prisma.post.createMany({
+      data: ids.map((id, index) => ({
+        id,
+        slug: id,
+        title: `tied ${index}`,
+        text: 'same createdAt',
+        authorId,
+        // all but the last post share a timestamp
+        createdAt:
+          index === ids.length - 1
+            ? new Date(createdAt.getTime() - 1)
+            : createdAt,
+      })),
+    });
+    return { caller, authorId, ids };
+  }
+
+  test.each([1, 2, 3, 7])(
+    'returns every row exactly once with limit %i',
+    async (limit) => {
+      const { caller, authorId, ids } = await seedTiedPosts();
+
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await caller.post.list({
+          limit,
+          cursor,
+          filter: { authorId },
+        });
+        seen.push(...page.items.map((item) => item.id));
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      expect(seen).toHaveLength(ids.length);
+      expect(new Set(seen)).toEqual(new Set(ids));
+    },
+  );
+
+  test('pages backward from a deep link', async () => {
+    const { caller, authorId } = await seedTiedPosts();
+
+    const first = await caller.post.list({ limit: 3, filter: { authorId } });
+    expect(first.previousCursor).toBeUndefined();
+    const second = await caller.post.list({
+      limit: 3,
+      filter: { authorId },
+      cursor: first.nextCursor,
+    });
+
+    const backToFirst = await caller.post.list({
+      limit: 3,
+      filter: { authorId },
+      cursor: second.previousCursor,
+      direction: 'backward',
+    });
+    expect(backToFirst.items).toEqual(first.items);
+    expect(backToFirst.previousCursor).toBeUndefined();
+    expect(backToFirst.nextCursor).toBeDefined();
+
+    const newest = await caller.post.list({
+      limit: 1,
+      filter: { authorId },
+      cursor: second.previousCursor,
+      direction: 'backward',
+    });
+    expect(newest.items).toEqual([first.items[2]]);
+    expect(newest.previousCursor).toBeDefined();
+  });
+
+  test('rejects tampered cursors and cursors for another sort', async () => {
+    const { caller, authorId } = await seedTiedPosts();
+
+    const { nextCursor } = await caller.post.list({
+      limit: 2,
+      filter: { authorId },
+    });
+    const [payload, signature] = nextCursor!.split('.');
+    const tampered = Buffer.from(payload, 'base64url')
+      .toString()
+      .replace('"value":', '"value":1+');
+
+    await expect(
+      caller.post.list({
+        cursor: `${Buffer.from(tampered).toString('base64url')}.${signature}`,
+      }),
+    ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    await expect(
+      caller.post.list({
+        cursor: nextCursor,
+        sort: { field: 'title', direction: 'desc' },
+      }),
+    ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+});
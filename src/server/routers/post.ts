@@ -2,11 +2,27 @@
  *
  * This is an example router, you can delete this file and then update `../pages/api/trpc/[trpc].tsx`
  */
-import { router, publicProcedure } from '../trpc';
-import type { Prisma } from '~/generated/prisma/client';
-import { TRPCError } from '@trpc/server';
+import { router, protectedProcedure, publicProcedure } from '../trpc';
+import { PostStatus, Prisma } from '~/generated/prisma/client';
+import { TRPCError, tracked } from '@trpc/server';
 import { z } from 'zod';
+import { postEvents, publishPostEvent } from '~/server/events';
+import { renderMarkdown } from '~/server/markdown';
+import type { TransactionClient } from '~/server/prisma';
 import { prisma } from '~/server/prisma';
+import { signPayload, unsignPayload } from '~/server/signing';
+import {
+  findPostIdBySlug,
+  renamePostSlug,
+  uniquePostSlug,
+} from '~/server/slug';
+import { purgeAtFor } from '~/server/trash';
+import {
+  postDTOSchema,
+  postListDTOSchema,
+  postWithHtmlDTOSchema,
+} from '~/utils/postDTO';
+import { tagNameSchema } from './tag';
 
 /**
  * Default selector for Post.
@@ -15,20 +31,352 @@ import { prisma } from '~/server/prisma';
  */
 const defaultPostSelect = {
   id: true,
+  slug: true,
   title: true,
   text: true,
+  status: true,
+  publishAt: true,
   createdAt: true,
   updatedAt: true,
+  author: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  tags: {
+    select: {
+      id: true,
+      name: true,
+    },
+    orderBy: { name: 'asc' },
+  },
 } satisfies Prisma.PostSelect;
 
+/**
+ * Adds the sanitized HTML for the Markdown in `text`
+ */
+async function withHtml<TPost extends { text: string }>(post: TPost) {
+  return { ...post, html: await renderMarkdown(post.text) };
+}
+
+const postTagsSchema = z.array(tagNameSchema).max(10);
+
+/**
+ * Connects a post to tags by name, creating tags that don't exist yet
+ */
+function connectOrCreateTags(names: string[]) {
+  return [...new Set(names)].map((name) => ({
+    where: { name },
+    create: { name },
+  }));
+}
+
+/**
+ * Resolves why an ownership- and version-checked write on a post matched no rows.
+ * The post is either gone, belongs to someone else, or was saved since the client loaded it.
+ */
+async function throwPostWriteError(
+  id: string,
+  userId: string,
+  opts: { inTrash?: boolean } = {},
+): Promise<never> {
+  const post = await prisma.post.findUnique({
+    where: opts.inTrash ? { id, deletedAt: { not: null } } : { id },
+    select: { authorId: true },
+  });
+  if (!post) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: opts.inTrash
+        ? `No post with id '${id}' in the trash`
+        : `No post with id '${id}'`,
+    });
+  }
+  if (post.authorId !== userId) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Only the author can modify this post',
+    });
+  }
+  throw new TRPCError({
+    code: 'CONFLICT',
+    message: `Post '${id}' was modified by someone else, reload it and try again`,
+  });
+}
+
+const postStatusSchema = z.enum(PostStatus);
+
+/**
+ * Scheduled posts need to know when to go live, and only they may go live in the future
+ */
+function refinePublishAt(
+  value: { status?: PostStatus; publishAt?: Date | null },
+  ctx: z.RefinementCtx,
+) {
+  if (value.status === 'scheduled' && !value.publishAt) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['publishAt'],
+      message: 'Scheduled posts need a publish date',
+    });
+  }
+  if (
+    value.status === 'published' &&
+    value.publishAt &&
+    value.publishAt.getTime() > Date.now()
+  ) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['publishAt'],
+      message: 'Schedule the post to publish it in the future',
+    });
+  }
+}
+
+/**
+ * `publishAt` is when a post went or goes live, it is only kept for scheduled and published posts
+ */
+function publishAtFor(status: PostStatus, publishAt: Date | null | undefined) {
+  switch (status) {
+    case 'scheduled':
+      return publishAt;
+    case 'published':
+      return publishAt ?? new Date();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Updates a post if it is still at version `updatedAt` and belongs to `authorId`.
+ * The replaced `title` and `text` are kept as a revision when either changes.
+ * @returns the new version of the post and the status it had before
+ */
+async function updatePostVersion(
+  tx: TransactionClient,
+  opts: {
+    id: string;
+    updatedAt: Date;
+    authorId: string;
+    data: Omit<Prisma.PostUpdateManyMutationInput, 'updatedAt'> & {
+      title?: string;
+      text?: string;
+    };
+  },
+) {
+  const { id, updatedAt, authorId, data } = opts;
+  const where = { id, updatedAt, authorId };
+  const previous = await tx.post.findFirst({
+    where,
+    select: { slug: true, title: true, text: true, status: true },
+  });
+  if (!previous) {
+    return throwPostWriteError(id, authorId);
+  }
+  // always move the version forward, even for edits within the same millisecond
+  const nextUpdatedAt = new Date(Math.max(Date.now(), updatedAt.getTime() + 1));
+  // still version checked, the post may have been saved since it was read
+  const { count } = await tx.post.updateMany({
+    where,
+    data: { ...data, updatedAt: nextUpdatedAt },
+  });
+  if (count === 0) {
+    return throwPostWriteError(id, authorId);
+  }
+  const { slug, status: previousStatus, ...content } = previous;
+  if (
+    (data.title !== undefined && data.title !== content.title) ||
+    (data.text !== undefined && data.text !== content.text)
+  ) {
+    await tx.postRevision.create({
+      data: { postId: id, ...content, savedAt: updatedAt },
+    });
+  }
+  if (data.title !== undefined && data.title !== content.title) {
+    await renamePostSlug(tx, { id, slug }, data.title);
+  }
+  return { updatedAt: nextUpdatedAt, previousStatus };
+}
+
+/**
+ * Unpublished posts are only visible to their author
+ */
+export function isVisibleTo(
+  post: { status: PostStatus; author: { id: string } | null },
+  userId: string | undefined,
+) {
+  return (
+    post.status === 'published' || (!!userId && post.author?.id === userId)
+  );
+}
+
+const postSortSchema = z.object({
+  field: z.enum(['createdAt', 'updatedAt', 'title']),
+  direction: z.enum(['asc', 'desc']),
+});
+
+type PostSort = z.infer<typeof postSortSchema>;
+
+const listCursorSchema = z.object({
+  sort: postSortSchema,
+  // dates are stored as epoch milliseconds
+  value: z.union([z.string(), z.number()]),
+  id: z.string(),
+});
+
+/**
+ * Creates an opaque cursor pointing right after `post` in the given sort order.
+ * It is signed, so clients can't craft cursors to probe rows outside of their filter.
+ */
+function encodeListCursor(
+  sort: PostSort,
+  post: { id: string; createdAt: Date; updatedAt: Date; title: string },
+) {
+  const value = post[sort.field];
+  return signPayload(
+    {
+      sort,
+      value: value instanceof Date ? value.getTime() : value,
+      id: post.id,
+    },
+    'cursor',
+  );
+}
+
+/**
+ * Reads back the position stored by `encodeListCursor()`
+ */
+function decodeListCursor(cursor: string, sort: PostSort) {
+  const parsed = listCursorSchema.safeParse(unsignPayload(cursor, 'cursor'));
+  const isTitle = sort.field === 'title';
+  if (
+    !parsed.success ||
+    parsed.data.sort.field !== sort.field ||
+    parsed.data.sort.direction !== sort.direction ||
+    typeof parsed.data.value !== (isTitle ? 'string' : 'number')
+  ) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message:
+        'Invalid cursor, it may have been created for another sort order',
+    });
+  }
+  const { value, id } = parsed.data;
+  return { value: typeof value === 'number' ? new Date(value) : value, id };
+}
+
+const searchCursorSchema = z.object({
+  query: z.string(),
+  rank: z.number(),
+  id: z.string(),
+});
+
+type SearchCursor = z.infer<typeof searchCursorSchema>;
+
+/**
+ * Creates an opaque cursor pointing right after a search match, signed like `encodeListCursor()`.
+ * The position doesn't depend on the post, so pages go on when it is edited or deleted.
+ */
+function encodeSearchCursor(cursor: SearchCursor) {
+  return signPayload(cursor, 'cursor');
+}
+
+/**
+ * Reads back the position stored by `encodeSearchCursor()`
+ */
+function decodeSearchCursor(cursor: string, query: string) {
+  const parsed = searchCursorSchema.safeParse(unsignPayload(cursor, 'cursor'));
+  if (!parsed.success || parsed.data.query !== query) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'Invalid cursor, it may have been created for another query',
+    });
+  }
+  return parsed.data;
+}
+
+/**
+ * Keyset condition for the posts strictly after or before a position on `(sort field, id)`,
+ * which stays correct when many posts share the same sort value.
+ */
+function keysetWhere(
+  sort: PostSort,
+  position: { value: string | Date; id: string },
+  side: 'after' | 'before',
+): Prisma.PostWhereInput {
+  const op = (sort.direction === 'asc') === (side === 'after') ? 'gt' : 'lt';
+  return {
+    OR: [
+      { [sort.field]: { [op]: position.value } },
+      { [sort.field]: position.value, id: { [op]: position.id } },
+    ],
+  };
+}
+
+function positionOf(
+  sort: PostSort,
+  post: { id: string; createdAt: Date; updatedAt: Date; title: string },
+) {
+  return { value: post[sort.field], id: post.id };
+}
+
+/**
+ * Control characters wrap the matches in `ts_headline()` output,
+ * they can't be typed into a post so they never clash with its text.
+ * Highlights are returned as segments so the client never has to render HTML.
+ */
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+const HEADLINE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", MaxFragments=2, MaxWords=30, MinWords=10`;
+
+type HighlightSegment = { text: string; highlight: boolean };
+
+function parseHeadline(headline: string): HighlightSegment[] {
+  const [head = '', ...rest] = headline.split(HIGHLIGHT_START);
+  const segments: HighlightSegment[] = [{ text: head, highlight: false }];
+  for (const chunk of rest) {
+    const [match = '', after = ''] = chunk.split(HIGHLIGHT_STOP);
+    segments.push(
+      { text: match, highlight: true },
+      { text: after, highlight: false },
+    );
+  }
+  return segments.filter((segment) => segment.text.length > 0);
+}
+
 export const postRouter = router({
   list: publicProcedure
+    .meta({
+      cache: { sMaxAge: 10, staleWhileRevalidate: 60 },
+      openapi: {
+        method: 'GET',
+        path: '/posts',
+        summary: 'List published posts',
+        description:
+          'Pages through published posts, pass `nextCursor` as `cursor` to get the next page',
+        tags: ['posts'],
+      },
+    })
     .input(
       z.object({
         limit: z.number().min(1).max(100).nullish(),
         cursor: z.string().nullish(),
+        filter: z
+          .object({
+            createdAfter: z.date().optional(),
+            createdBefore: z.date().optional(),
+            titleStartsWith: z.string().min(1).max(32).optional(),
+            authorId: z.string().optional(),
+            // only posts with all of these tags
+            tags: z.array(tagNameSchema).max(10).optional(),
+          })
+          .nullish(),
+        sort: postSortSchema.nullish(),
+        direction: z.enum(['forward', 'backward']).nullish(),
       }),
     )
+    .output(postListDTOSchema)
     .query(async ({ input }) => {
       /**
        * For pagination docs you can have a look here
@@ -37,68 +385,642 @@ export const postRouter = router({
        */
 
       const limit = input.limit ?? 50;
-      const { cursor } = input;
+      const { cursor, filter } = input;
+      const sort: PostSort = input.sort ?? {
+        field: 'createdAt',
+        direction: 'desc',
+      };
+      // `direction` is set by `useInfiniteQuery()`, `backward` loads the page before the cursor
+      const isBackward = input.direction === 'backward';
+
+      const where: Prisma.PostWhereInput = {
+        // drafts, scheduled and archived posts are only listed in `drafts`
+        status: 'published',
+        createdAt: {
+          gte: filter?.createdAfter,
+          lt: filter?.createdBefore,
+        },
+        title: filter?.titleStartsWith
+          ? { startsWith: filter.titleStartsWith, mode: 'insensitive' }
+          : undefined,
+        authorId: filter?.authorId,
+        AND: (filter?.tags ?? []).map((name) => ({
+          tags: { some: { name } },
+        })),
+      };
+      const position = cursor ? decodeListCursor(cursor, sort) : null;
+      // walk away from the cursor, backward pages are flipped into sort order below
+      const queryDirection =
+        isBackward === (sort.direction === 'asc') ? 'desc' : 'asc';
 
       const items = await prisma.post.findMany({
         select: defaultPostSelect,
-        // get an extra item at the end which we'll use as next cursor
+        // get an extra item at the end to know whether there are more posts in this direction
         take: limit + 1,
-        where: {},
-        cursor: cursor
+        where: position
           ? {
-              id: cursor,
+              AND: [
+                where,
+                keysetWhere(sort, position, isBackward ? 'before' : 'after'),
+              ],
             }
-          : undefined,
-        orderBy: {
-          createdAt: 'desc',
-        },
+          : where,
+        // none of the sort fields are unique, `id` breaks ties so the order is total
+        orderBy: [{ [sort.field]: queryDirection }, { id: queryDirection }],
       });
-      let nextCursor: typeof cursor | undefined = undefined;
-      if (items.length > limit) {
-        // Remove the last item and use it as next cursor
+      const hasMore = items.length > limit;
+      if (hasMore) {
+        items.pop();
+      }
+      if (isBackward) {
+        items.reverse();
+      }
 
-        const nextItem = items.pop()!;
-        nextCursor = nextItem.id;
+      const first = items[0];
+      const last = items.at(-1);
+      /**
+       * Whether there are posts on the side of the page we came from,
+       * only possible when we started from a cursor
+       */
+      const hasPostsBeyond = async (
+        post: typeof first | undefined,
+        side: 'after' | 'before',
+      ) =>
+        !!position &&
+        !!post &&
+        !!(await prisma.post.findFirst({
+          select: { id: true },
+          where: {
+            AND: [where, keysetWhere(sort, positionOf(sort, post), side)],
+          },
+        }));
+
+      const hasNext = isBackward
+        ? await hasPostsBeyond(last, 'after')
+        : hasMore;
+      const hasPrevious = isBackward
+        ? hasMore
+        : await hasPostsBeyond(first, 'before');
+
+      return {
+        items,
+        // the next page starts right after the last item, the previous one right before the first
+        nextCursor: hasNext && last ? encodeListCursor(sort, last) : undefined,
+        previousCursor:
+          hasPrevious && first ? encodeListCursor(sort, first) : undefined,
+      };
+    }),
+  search: publicProcedure
+    .input(
+      z.object({
+        query: z.string().trim().min(1).max(200),
+        limit: z.number().min(1).max(100).nullish(),
+        cursor: z.string().nullish(),
+      }),
+    )
+    .query(async ({ input }) => {
+      const limit = input.limit ?? 50;
+      const { query, cursor } = input;
+      const position = cursor ? decodeSearchCursor(cursor, query) : null;
+
+      /**
+       * Matches are ordered by rank, ties broken by id so pages are stable.
+       * Like `list`, the cursor holds the position of the last item of the page.
+       */
+      const matches = await prisma.$queryRaw<
+        {
+          id: string;
+          rank: number;
+          titleHeadline: string;
+          textHeadline: string;
+        }[]
+      >`
+        WITH "ranked" AS (
+          SELECT "Post"."id", ts_rank("Post"."searchVector", "q"."query") AS "rank"
+          FROM "Post", websearch_to_tsquery('english', ${query}) AS "q"("query")
+          WHERE "Post"."searchVector" @@ "q"."query"
+            AND "Post"."status" = 'published'
+            -- raw queries aren't covered by the soft delete extension
+            AND "Post"."deletedAt" IS NULL
+        )
+        SELECT
+          "ranked"."id",
+          "ranked"."rank",
+          ts_headline('english', "Post"."title", "q"."query", ${HEADLINE_OPTIONS}) AS "titleHeadline",
+          ts_headline('english', "Post"."text", "q"."query", ${HEADLINE_OPTIONS}) AS "textHeadline"
+        FROM "ranked"
+        JOIN "Post" ON "Post"."id" = "ranked"."id",
+        websearch_to_tsquery('english', ${query}) AS "q"("query")
+        ${
+          position
+            ? // `ts_rank()` is a `real`, compare at that precision
+              Prisma.sql`WHERE ("ranked"."rank", "ranked"."id") < (${position.rank}::real, ${position.id})`
+            : Prisma.empty
+        }
+        ORDER BY "ranked"."rank" DESC, "ranked"."id" DESC
+        -- get an extra item at the end to know whether there are more matches
+        LIMIT ${limit + 1}
+      `;
+
+      let nextCursor: string | undefined = undefined;
+      if (matches.length > limit) {
+        matches.pop();
+        const last = matches.at(-1)!;
+        nextCursor = encodeSearchCursor({
+          query,
+          rank: last.rank,
+          id: last.id,
+        });
       }
 
+      const posts = await prisma.post.findMany({
+        select: defaultPostSelect,
+        where: { id: { in: matches.map((match) => match.id) } },
+      });
+      const postsById = new Map(posts.map((post) => [post.id, post]));
+
       return {
-        items: items.reverse(),
+        items: matches.flatMap((match) => {
+          const post = postsById.get(match.id);
+          if (!post) {
+            // deleted in between the two queries
+            return [];
+          }
+          return {
+            ...post,
+            rank: match.rank,
+            titleHighlights: parseHeadline(match.titleHeadline),
+            textHighlights: parseHeadline(match.textHeadline),
+          };
+        }),
         nextCursor,
       };
     }),
   byId: publicProcedure
+    .meta({
+      cache: { sMaxAge: 60, staleWhileRevalidate: 300 },
+      openapi: {
+        method: 'GET',
+        path: '/posts/{id}',
+        summary: 'Get a post',
+        tags: ['posts'],
+      },
+    })
     .input(
       z.object({
         id: z.string(),
       }),
     )
-    .query(async ({ input }) => {
+    .output(postWithHtmlDTOSchema)
+    .query(async ({ ctx, input }) => {
       const { id } = input;
       const post = await prisma.post.findUnique({
         where: { id },
         select: defaultPostSelect,
       });
-      if (!post) {
+      if (!post || !isVisibleTo(post, ctx.session?.user.id)) {
         throw new TRPCError({
           code: 'NOT_FOUND',
           message: `No post with id '${id}'`,
         });
       }
-      return post;
+      return withHtml(post);
     }),
-  add: publicProcedure
+  /**
+   * Finds a post by its slug, a slug it had before being renamed, or its id for legacy `/post/<id>` links.
+   * Clients should redirect when the returned `slug` differs from the one they asked for.
+   */
+  bySlug: publicProcedure
+    .meta({ cache: { sMaxAge: 60, staleWhileRevalidate: 300 } })
     .input(
       z.object({
-        id: z.uuid().optional(),
-        title: z.string().min(1).max(32),
-        text: z.string().min(1),
+        slug: z.string(),
       }),
     )
-    .mutation(async ({ input }) => {
-      const post = await prisma.post.create({
-        data: input,
+    .output(postWithHtmlDTOSchema)
+    .query(async ({ ctx, input }) => {
+      const { slug } = input;
+      const id = await findPostIdBySlug(slug);
+      const post = id
+        ? await prisma.post.findUnique({
+            where: { id },
+            select: defaultPostSelect,
+          })
+        : null;
+      if (!post || !isVisibleTo(post, ctx.session?.user.id)) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `No post at '${slug}'`,
+        });
+      }
+      return withHtml(post);
+    }),
+  /**
+   * The signed-in user's posts that aren't published, most recently edited first
+   */
+  drafts: protectedProcedure
+    .input(
+      z
+        .object({
+          status: z.enum(['draft', 'scheduled', 'archived']).optional(),
+        })
+        .nullish(),
+    )
+    .query(async ({ ctx, input }) => {
+      const items = await prisma.post.findMany({
         select: defaultPostSelect,
+        where: {
+          authorId: ctx.session.user.id,
+          status: input?.status ?? { not: 'published' },
+        },
+        orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+        take: 100,
       });
+      return { items };
+    }),
+  /**
+   * Renders Markdown the same way `byId` does, for the live preview while writing a post,
+   * a mutation so long drafts go in the request body rather than the URL
+   */
+  preview: protectedProcedure
+    .input(
+      z.object({
+        text: z.string().max(100_000),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      return { html: await renderMarkdown(input.text) };
+    }),
+  add: protectedProcedure
+    .meta({
+      rateLimit: {
+        ip: { capacity: 20, windowMs: 60_000 },
+        user: { capacity: 5, windowMs: 60_000 },
+      },
+      openapi: {
+        method: 'POST',
+        path: '/posts',
+        summary: 'Write a post',
+        tags: ['posts'],
+        protect: true,
+        successStatus: 201,
+      },
+    })
+    .input(
+      z
+        .object({
+          id: z.uuid().optional(),
+          title: z.string().min(1).max(32),
+          text: z.string().min(1),
+          tags: postTagsSchema.optional(),
+          status: postStatusSchema.default('published'),
+          publishAt: z.date().nullish(),
+        })
+        .superRefine(refinePublishAt),
+    )
+    .output(postDTOSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { tags, status, publishAt, ...data } = input;
+      const post = await prisma.$transaction(async (tx) =>
+        tx.post.create({
+          data: {
+            ...data,
+            slug: await uniquePostSlug(tx, data.title),
+            status,
+            publishAt: publishAtFor(status, publishAt),
+            authorId: ctx.session.user.id,
+            tags: tags
+              ? { connectOrCreate: connectOrCreateTags(tags) }
+              : undefined,
+          },
+          select: defaultPostSelect,
+        }),
+      );
+      await publishPostEvent({ type: 'add', id: post.id });
       return post;
     }),
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        /**
+         * The `updatedAt` of the copy the client edited, used as a version check
+         */
+        updatedAt: z.date(),
+        data: z
+          .object({
+            title: z.string().min(1).max(32).optional(),
+            text: z.string().min(1).optional(),
+            tags: postTagsSchema.optional(),
+            status: postStatusSchema.optional(),
+            publishAt: z.date().nullish(),
+          })
+          .superRefine(refinePublishAt),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, updatedAt, data } = input;
+      const { tags, status, publishAt, ...fields } = data;
+      const { post, previousStatus } = await prisma.$transaction(async (tx) => {
+        const version = await updatePostVersion(tx, {
+          id,
+          updatedAt,
+          authorId: ctx.session.user.id,
+          data: {
+            ...fields,
+            ...(status && {
+              status,
+              publishAt: publishAtFor(status, publishAt),
+            }),
+          },
+        });
+        // relations can't be written by `updateMany()`, the version check above already passed
+        const post = await tx.post.update({
+          where: { id },
+          data: {
+            tags: tags
+              ? { set: [], connectOrCreate: connectOrCreateTags(tags) }
+              : undefined,
+            updatedAt: version.updatedAt,
+          },
+          select: defaultPostSelect,
+        });
+        return { post, previousStatus: version.previousStatus };
+      });
+      await publishPostEvent({ type: 'change', id });
+      // went live, announced to lists like posts published by the scheduler
+      if (post.status === 'published' && previousStatus !== 'published') {
+        await publishPostEvent({ type: 'add', id });
+      }
+      return withHtml(post);
+    }),
+  /**
+   * Prior versions of a post, most recently replaced first.
+   * The version after a revision is the next newer revision, or the post itself.
+   */
+  revisions: publicProcedure
+    .input(
+      z.object({
+        postId: z.string(),
+        limit: z.number().min(1).max(100).nullish(),
+        cursor: z.string().nullish(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const limit = input.limit ?? 20;
+      const { postId, cursor } = input;
+      const post = await prisma.post.findUnique({
+        where: { id: postId },
+        select: { status: true, author: { select: { id: true } } },
+      });
+      if (!post || !isVisibleTo(post, ctx.session?.user.id)) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `No post with id '${postId}'`,
+        });
+      }
+
+      const items = await prisma.postRevision.findMany({
+        select: {
+          id: true,
+          title: true,
+          text: true,
+          savedAt: true,
+          createdAt: true,
+        },
+        // get an extra item at the end which we'll use as next cursor
+        take: limit + 1,
+        where: { postId },
+        cursor: cursor ? { id: cursor } : undefined,
+        // versions only move forward, so `savedAt` orders a post's revisions
+        orderBy: [{ savedAt: 'desc' }, { id: 'desc' }],
+      });
+      let nextCursor: typeof cursor | undefined = undefined;
+      if (items.length > limit) {
+        const nextItem = items.pop()!;
+        nextCursor = nextItem.id;
+      }
+
+      return {
+        items,
+        nextCursor,
+      };
+    }),
+  /**
+   * Brings back the title and text of a revision, the replaced version becomes a revision itself
+   */
+  restoreRevision: protectedProcedure
+    .input(
+      z.object({
+        revisionId: z.string(),
+        /**
+         * The `updatedAt` of the post the client restores over, see `update`
+         */
+        updatedAt: z.date(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { revisionId, updatedAt } = input;
+      const revision = await prisma.postRevision.findUnique({
+        where: { id: revisionId },
+        select: { postId: true, title: true, text: true },
+      });
+      if (!revision) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `No revision with id '${revisionId}'`,
+        });
+      }
+      const { postId, title, text } = revision;
+      const post = await prisma.$transaction(async (tx) => {
+        await updatePostVersion(tx, {
+          id: postId,
+          updatedAt,
+          authorId: ctx.session.user.id,
+          data: { title, text },
+        });
+        return tx.post.findUniqueOrThrow({
+          where: { id: postId },
+          select: defaultPostSelect,
+        });
+      });
+      await publishPostEvent({ type: 'change', id: postId });
+      return withHtml(post);
+    }),
+  /**
+   * Moves a post to the trash, see `restore` and `purge`
+   */
+  delete: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        updatedAt: z.date(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, updatedAt } = input;
+      const authorId = ctx.session.user.id;
+      const { count } = await prisma.post.updateMany({
+        where: { id, updatedAt, authorId },
+        data: { deletedAt: new Date() },
+      });
+      if (count === 0) {
+        return throwPostWriteError(id, authorId);
+      }
+      await publishPostEvent({ type: 'remove', id });
+      return { id };
+    }),
+  /**
+   * The signed-in user's trashed posts, most recently deleted first
+   */
+  trash: protectedProcedure.query(async ({ ctx }) => {
+    const posts = await prisma.post.findMany({
+      select: { ...defaultPostSelect, deletedAt: true },
+      where: {
+        authorId: ctx.session.user.id,
+        deletedAt: { not: null },
+      },
+      orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+      take: 100,
+    });
+    return {
+      items: posts.map((post) => {
+        // never `null`, only trashed posts were selected
+        const deletedAt = post.deletedAt!;
+        return { ...post, deletedAt, purgeAt: purgeAtFor(deletedAt) };
+      }),
+    };
+  }),
+  restore: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id } = input;
+      const authorId = ctx.session.user.id;
+      const { count } = await prisma.post.updateMany({
+        where: { id, authorId, deletedAt: { not: null } },
+        data: { deletedAt: null },
+      });
+      if (count === 0) {
+        return throwPostWriteError(id, authorId, { inTrash: true });
+      }
+      // back in lists, just like a new post
+      await publishPostEvent({ type: 'add', id });
+      return { id };
+    }),
+  /**
+   * Deletes a trashed post for good instead of waiting for the retention window to end
+   */
+  purge: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id } = input;
+      const authorId = ctx.session.user.id;
+      const { count } = await prisma.post.deleteMany({
+        where: { id, authorId, deletedAt: { not: null } },
+      });
+      if (count === 0) {
+        return throwPostWriteError(id, authorId, { inTrash: true });
+      }
+      return { id };
+    }),
+  /**
+   * Yields posts as they become visible to the subscriber: added, published by the scheduler, or restored from the trash.
+   * Reconnecting clients send the id of the last post they got and first receive the posts published since,
+   * ordered by `(publishAt, id)` so posts going live in the same instant and scheduled posts are replayed too.
+   * Posts restored from the trash keep their `publishAt` and aren't replayed.
+   * @see https://trpc.io/docs/v11/server/subscriptions
+   */
+  onAdd: publicProcedure
+    .input(
+      z
+        .object({
+          lastEventId: z.string().nullish(),
+        })
+        .nullish(),
+    )
+    .subscription(async function* ({ ctx, input, signal }) {
+      const userId = ctx.session?.user.id;
+      // listen before catching up so nothing added meanwhile is missed
+      const events = await postEvents.subscribe(signal);
+
+      const lastEventId = input?.lastEventId;
+      const last = lastEventId
+        ? await prisma.post.findUnique({
+            where: { id: lastEventId, deletedAt: undefined },
+            select: { id: true, publishAt: true, createdAt: true },
+          })
+        : null;
+      if (last) {
+        // posts published before `publishAt` was tracked went live when they were created
+        const since = last.publishAt ?? last.createdAt;
+        const missed = await prisma.post.findMany({
+          select: defaultPostSelect,
+          where: {
+            status: 'published',
+            OR: [
+              { publishAt: { gt: since } },
+              { publishAt: since, id: { gt: last.id } },
+            ],
+          },
+          orderBy: [{ publishAt: 'asc' }, { id: 'asc' }],
+          take: 100,
+        });
+        for (const post of missed) {
+          yield tracked(post.id, post);
+        }
+      }
+
+      for await (const event of events) {
+        if (event.type !== 'add') {
+          continue;
+        }
+        const post = await prisma.post.findUnique({
+          where: { id: event.id },
+          select: defaultPostSelect,
+        });
+        if (post && isVisibleTo(post, userId)) {
+          yield tracked(post.id, post);
+        }
+      }
+    }),
+  /**
+   * Yields the new version of posts edited after subscribing, or only of post `id`.
+   * `post` is `null` when the post was trashed or the subscriber may no longer see it.
+   */
+  onChange: publicProcedure
+    .input(
+      z
+        .object({
+          id: z.string().optional(),
+        })
+        .nullish(),
+    )
+    .subscription(async function* ({ ctx, input, signal }) {
+      const userId = ctx.session?.user.id;
+      const events = await postEvents.subscribe(signal);
+      for await (const event of events) {
+        if (event.type === 'add' || (input?.id && input.id !== event.id)) {
+          continue;
+        }
+        const post =
+          event.type === 'change'
+            ? await prisma.post.findUnique({
+                where: { id: event.id },
+                select: defaultPostSelect,
+              })
+            : null;
+        yield {
+          id: event.id,
+          post: post && isVisibleTo(post, userId) ? await withHtml(post) : null,
+        };
+      }
+    }),
 });
@@ -0,0 +1,30 @@
+/**
+ * Liveness and readiness of the server, also served as plain HTTP by `/api/health` and `/api/ready`
+ */
+import { TRPCError } from '@trpc/server';
+import { checkHealth, checkReadiness } from '~/server/health';
+import { publicProcedure, router } from '../trpc';
+
+export const systemRouter = router({
+  /**
+   * Answers as long as the process is up
+   */
+  health: publicProcedure.query(() => checkHealth()),
+  /**
+   * Checks the database and migrations
+   * @throws `SERVICE_UNAVAILABLE` when any check fails
+   */
+  ready: publicProcedure.query(async () => {
+    const report = await checkReadiness();
+    if (report.status !== 'ok') {
+      const failed = Object.entries(report.checks)
+        .filter(([, check]) => !check.ok)
+        .map(([name, check]) => `${name} (${check.error})`);
+      throw new TRPCError({
+        code: 'SERVICE_UNAVAILABLE',
+        message: `Not ready: ${failed.join(', ')}`,
+      });
+    }
+    return report;
+  }),
+});
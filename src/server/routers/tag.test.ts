@@ -0,0 +1,87 @@
+/**
+ * Integration tests for the `tag` router and tagged posts
+ */
+import { test, expect } from 'vitest';
+import { env } from '../env';
+import { createSignedInCaller } from '../testUtils';
+
+function uniqueTag(name: string) {
+  return `${name}-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+test('tag posts and filter the list by tags', async () => {
+  const caller = await createSignedInCaller();
+  const react = uniqueTag('react');
+  const trpc = uniqueTag('trpc');
+
+  const both = await caller.post.add({
+    title: 'both',
+    text: 'text',
+    tags: [trpc, react.toUpperCase(), react],
+  });
+  expect(both.tags.map((tag) => tag.name)).toEqual([react, trpc].sort());
+  await caller.post.add({ title: 'one', text: 'text', tags: [react] });
+
+  const withReact = await caller.post.list({ filter: { tags: [react] } });
+  expect(withReact.items.map((item) => item.title).sort()).toEqual([
+    'both',
+    'one',
+  ]);
+  const withBoth = await caller.post.list({ filter: { tags: [react, trpc] } });
+  expect(withBoth.items.map((item) => item.id)).toEqual([both.id]);
+
+  const updated = await caller.post.update({
+    id: both.id,
+    updatedAt: both.updatedAt,
+    data: { tags: [trpc] },
+  });
+  expect(updated.tags.map((tag) => tag.name)).toEqual([trpc]);
+  expect(updated.updatedAt.getTime()).toBeGreaterThan(both.updatedAt.getTime());
+});
+
+test('rename and merge tags', async () => {
+  const caller = await createSignedInCaller();
+  const source = await caller.tag.create({ name: uniqueTag('js') });
+  const target = await caller.tag.create({ name: uniqueTag('javascript') });
+
+  await caller.post.add({ title: 'a', text: 'a', tags: [source.name] });
+  await caller.post.add({
+    title: 'b',
+    text: 'b',
+    tags: [source.name, target.name],
+  });
+
+  // they change everyone's posts
+  await expect(
+    caller.tag.rename({ id: source.id, name: uniqueTag('ecmascript') }),
+  ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  await expect(
+    caller.tag.merge({ sourceId: source.id, targetId: target.id }),
+  ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+  const { email } = (await caller.auth.me())!;
+  env.ADMIN_EMAILS.push(email);
+  try {
+    await expect(
+      caller.tag.rename({ id: source.id, name: target.name }),
+    ).rejects.toMatchObject({ code: 'CONFLICT' });
+    const renamed = await caller.tag.rename({
+      id: source.id,
+      name: uniqueTag('ecmascript'),
+    });
+
+    const merged = await caller.tag.merge({
+      sourceId: renamed.id,
+      targetId: target.id,
+    });
+    expect(merged).toEqual(target);
+  } finally {
+    env.ADMIN_EMAILS.splice(env.ADMIN_EMAILS.indexOf(email), 1);
+  }
+
+  const tags = await caller.tag.list();
+  expect(tags.find((tag) => tag.id === source.id)).toBeUndefined();
+  expect(tags.find((tag) => tag.id === target.id)).toMatchObject({
+    postCount: 2,
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Tags group posts by topic, a post can have many tags and a tag many posts
+ */
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { prisma } from '~/server/prisma';
+import {
+  adminProcedure,
+  protectedProcedure,
+  publicProcedure,
+  router,
+} from '../trpc';
+
+/**
+ * Tag names are stored lowercase so `React` and `react` are the same tag
+ */
+export const tagNameSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1)
+  .max(32)
+  .regex(/^[a-z0-9][a-z0-9-]*$/, {
+    message: 'Tags may only contain letters, numbers and dashes',
+  });
+
+const defaultTagSelect = {
+  id: true,
+  name: true,
+} as const;
+
+async function assertNameIsFree(name: string) {
+  const existing = await prisma.tag.findUnique({
+    where: { name },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message: `Tag '${name}' already exists, merge the tags instead`,
+    });
+  }
+}
+
+export const tagRouter = router({
+  list: publicProcedure.query(async () => {
+    const tags = await prisma.tag.findMany({
+      select: {
+        ...defaultTagSelect,
+        // only the posts anyone can see, relation counts aren't covered by the soft delete extension
+        _count: {
+          select: {
+            posts: { where: { status: 'published', deletedAt: null } },
+          },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+    return tags.map(({ _count, ...tag }) => ({
+      ...tag,
+      postCount: _count.posts,
+    }));
+  }),
+  create: protectedProcedure
+    .input(z.object({ name: tagNameSchema }))
+    .mutation(async ({ input }) => {
+      await assertNameIsFree(input.name);
+      return prisma.tag.create({
+        data: { name: input.name },
+        select: defaultTagSelect,
+      });
+    }),
+  /**
+   * Renames the tag on every post of the site, so only admins may
+   */
+  rename: adminProcedure
+    .input(z.object({ id: z.string(), name: tagNameSchema }))
+    .mutation(async ({ input }) => {
+      await assertNameIsFree(input.name);
+      const { count } = await prisma.tag.updateMany({
+        where: { id: input.id },
+        data: { name: input.name },
+      });
+      if (count === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `No tag with id '${input.id}'`,
+        });
+      }
+      return { id: input.id, name: input.name };
+    }),
+  /**
+   * Moves every post of the source tag to the target tag and deletes the source tag, only admins may
+   */
+  merge: adminProcedure
+    .input(z.object({ sourceId: z.string(), targetId: z.string() }))
+    .mutation(async ({ input }) => {
+      const { sourceId, targetId } = input;
+      if (sourceId === targetId) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Cannot merge a tag into itself',
+        });
+      }
+      return prisma.$transaction(async (tx) => {
+        const tags = await tx.tag.findMany({
+          where: { id: { in: [sourceId, targetId] } },
+          select: { id: true },
+        });
+        if (tags.length !== 2) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Both tags must exist to merge them',
+          });
+        }
+        const posts = await tx.post.findMany({
+          // trashed posts too, so they keep their tags when restored
+          where: { tags: { some: { id: sourceId } }, deletedAt: undefined },
+          select: { id: true },
+        });
+        // `connect` skips posts that already have the target tag
+        await tx.tag.update({
+          where: { id: targetId },
+          data: { posts: { connect: posts } },
+        });
+        await tx.tag.delete({ where: { id: sourceId } });
+        return tx.tag.findUniqueOrThrow({
+          where: { id: targetId },
+          select: defaultTagSelect,
+        });
+      });
+    }),
+});
@@ -0,0 +1,163 @@
+import { expect, test } from 'vitest';
+import type { Clock } from './clock';
+import { prisma } from './prisma';
+import { createMemoryRateLimitStore } from './rateLimit';
+import { createPostScheduler, publishDuePosts } from './scheduler';
+import { TRASH_RETENTION_DAYS } from './trash';
+
+const DAY = 24 * 60 * 60_000;
+
+/**
+ * A clock that only moves when told to, running due timers along the way
+ */
+function createFakeClock(start: Date) {
+  let now = start.getTime();
+  let nextHandle = 0;
+  const timers = new Map<
+    number,
+    { at: number; callback: () => void | Promise<void> }
+  >();
+
+  const clock: Clock = {
+    now: () => new Date(now),
+    setTimeout(callback, ms) {
+      const handle = ++nextHandle;
+      timers.set(handle, { at: now + ms, callback });
+      return handle;
+    },
+    clearTimeout(handle) {
+      timers.delete(handle as number);
+    },
+  };
+
+  return {
+    clock,
+    get pendingTimers() {
+      return timers.size;
+    },
+    async advance(ms: number) {
+      const until = now + ms;
+      for (;;) {
+        const [handle, timer] =
+          [...timers].sort(([, a], [, b]) => a.at - b.at)[0] ?? [];
+        if (handle === undefined || !timer || timer.at > until) {
+          break;
+        }
+        timers.delete(handle);
+        now = timer.at;
+        // the tick schedules the next one once it is done
+        await timer.callback();
+      }
+      now = until;
+    },
+  };
+}
+
+async function createScheduledPost(publishAt: Date) {
+  return prisma.post.create({
+    data: {
+      slug: crypto.randomUUID(),
+      title: 'scheduled',
+      text: 'scheduled',
+      status: 'scheduled',
+      publishAt,
+    },
+    select: { id: true },
+  });
+}
+
+async function statusOf(id: string) {
+  const post = await prisma.post.findUniqueOrThrow({
+    where: { id },
+    select: { status: true },
+  });
+  return post.status;
+}
+
+test('publishDuePosts() only publishes posts that are due', async () => {
+  const now = new Date('2030-01-01T12:00:00Z');
+  const due = await createScheduledPost(new Date('2030-01-01T11:59:59Z'));
+  const later = await createScheduledPost(new Date('2030-01-01T12:00:01Z'));
+
+  expect(await publishDuePosts(now, { id: { in: [due.id, later.id] } })).toBe(
+    1,
+  );
+
+  expect(await statusOf(due.id)).toBe('published');
+  expect(await statusOf(later.id)).toBe('scheduled');
+
+  await prisma.post.deleteMany({ where: { id: { in: [due.id, later.id] } } });
+});
+
+test('the scheduler publishes posts once their time comes', async () => {
+  const start = new Date('2040-06-01T08:00:00Z');
+  const fake = createFakeClock(start);
+  const post = await createScheduledPost(
+    new Date(start.getTime() + 5 * 60_000),
+  );
+  const scheduler = createPostScheduler({
+    clock: fake.clock,
+    intervalMs: 60_000,
+    posts: { id: post.id },
+    rateLimitStore: createMemoryRateLimitStore(),
+  });
+
+  scheduler.start();
+  expect(scheduler.isRunning).toBe(true);
+
+  await fake.advance(4 * 60_000);
+  expect(await statusOf(post.id)).toBe('scheduled');
+
+  await fake.advance(60_000);
+  expect(await statusOf(post.id)).toBe('published');
+
+  scheduler.stop();
+  expect(scheduler.isRunning).toBe(false);
+  expect(fake.pendingTimers).toBe(0);
+
+  await prisma.post.delete({ where: { id: post.id } });
+});
+
+test('the scheduler purges posts trashed longer than the retention window', async () => {
+  const start = new Date('2050-03-01T00:00:00Z');
+  const fake = createFakeClock(start);
+  const expired = await prisma.post.create({
+    data: {
+      slug: crypto.randomUUID(),
+      title: 'expired',
+      text: 'expired',
+      deletedAt: new Date(start.getTime() - (TRASH_RETENTION_DAYS + 1) * DAY),
+    },
+    select: { id: true },
+  });
+  const recent = await prisma.post.create({
+    data: {
+      slug: crypto.randomUUID(),
+      title: 'recent',
+      text: 'recent',
+      deletedAt: start,
+    },
+    select: { id: true },
+  });
+
+  const scheduler = createPostScheduler({
+    clock: fake.clock,
+    intervalMs: 24 * 60 * 60_000,
+    posts: { id: { in: [expired.id, recent.id] } },
+    rateLimitStore: createMemoryRateLimitStore(),
+  });
+
+  scheduler.start();
+  await fake.advance(0);
+  scheduler.stop();
+
+  const remaining = await prisma.post.findMany({
+    where: { id: { in: [expired.id, recent.id] }, deletedAt: { not: null } },
+    select: { id: true },
+  });
+  expect(remaining).toEqual([{ id: recent.id }]);
+
+  await prisma.post.deleteMany({
+    where: { id: recent.id, deletedAt: { not: null } },
+  });
+});
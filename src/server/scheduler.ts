@@ -0,0 +1,108 @@
+/**
+ * Publishes scheduled posts once their `publishAt` has passed, empties expired trash and forgets full rate limit buckets.
+ * It runs in-process and is started from `src/instrumentation.ts`,
+ * running it on several instances is safe since every job is a single idempotent statement.
+ */
+import type { Prisma } from '~/generated/prisma/client';
+import type { Clock } from './clock';
+import { systemClock } from './clock';
+import { publishPostEvent } from './events';
+import { logger } from './logger';
+import { prisma } from './prisma';
+import type { RateLimitStore } from './rateLimit';
+import { rateLimitStore as defaultRateLimitStore } from './rateLimit';
+import { purgeExpiredTrash } from './trash';
+
+/**
+ * Flips every scheduled post that is due at `now` to published
+ * @param posts limits publishing to matching posts
+ * @returns the number of posts published
+ */
+export async function publishDuePosts(
+  now: Date,
+  posts: Prisma.PostWhereInput = {},
+) {
+  const published = await prisma.post.updateManyAndReturn({
+    where: {
+      ...posts,
+      status: 'scheduled',
+      publishAt: { lte: now },
+    },
+    data: { status: 'published' },
+    select: { id: true },
+  });
+  for (const { id } of published) {
+    await publishPostEvent({ type: 'add', id });
+  }
+  return published.length;
+}
+
+export interface PostSchedulerOptions {
+  clock?: Clock;
+  /**
+   * How often to look for due posts, posts go live at most this late
+   */
+  intervalMs?: number;
+  /**
+   * Limits the post jobs to matching posts, so tests sharing a database only touch their own
+   */
+  posts?: Prisma.PostWhereInput;
+  rateLimitStore?: RateLimitStore;
+  onError?: (error: unknown) => void;
+}
+
+export function createPostScheduler(opts: PostSchedulerOptions = {}) {
+  const {
+    clock = systemClock,
+    intervalMs = 30_000,
+    posts = {},
+    rateLimitStore = defaultRateLimitStore,
+    onError = (error) => logger.error('Failed to run post jobs', { error }),
+  } = opts;
+  let handle: unknown = null;
+
+  async function tick() {
+    try {
+      const now = clock.now();
+      await publishDuePosts(now, posts);
+      await purgeExpiredTrash(now, posts);
+      await rateLimitStore.prune(now);
+    } catch (error) {
+      onError(error);
+    }
+    // `stop()` may have been called while publishing
+    if (handle !== null) {
+      handle = clock.setTimeout(tick, intervalMs);
+    }
+  }
+
+  return {
+    /**
+     * Runs the jobs right away, then every `intervalMs`
+     */
+    start() {
+      if (handle === null) {
+        handle = clock.setTimeout(tick, 0);
+      }
+    },
+    stop() {
+      if (handle !== null) {
+        clock.clearTimeout(handle);
+        handle = null;
+      }
+    },
+    get isRunning() {
+      return handle !== null;
+    },
+  };
+}
+
+const schedulerGlobal = globalThis as typeof globalThis & {
+  postScheduler?: ReturnType<typeof createPostScheduler>;
+};
+
+/**
+ * The app's scheduler, kept on the global object so hot reloading doesn't start a second one
+ */
+export const postScheduler = (schedulerGlobal.postScheduler ??=
+  createPostScheduler());
@@ -0,0 +1,71 @@
+/**
+ * Stateless sessions stored in a signed cookie.
+ * The cookie only carries the user id and an expiry, the user itself is loaded on every request
+ * so that deleted users are signed out immediately.
+ */
+import { env } from './env';
+import { signPayload, unsignPayload } from './signing';
+
+export const SESSION_COOKIE = 'session';
+
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 30;
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+export interface Session {
+  user: SessionUser;
+  expires: Date;
+}
+
+interface SessionPayload {
+  uid: string;
+  exp: number;
+}
+
+/**
+ * Creates the signed cookie value for a user
+ */
+export function createSessionToken(userId: string, now = new Date()) {
+  const payload: SessionPayload = {
+    uid: userId,
+    exp: Math.floor(now.getTime() / 1000) + SESSION_MAX_AGE_SECONDS,
+  };
+  return signPayload(payload, 'session');
+}
+
+/**
+ * Verifies a cookie value created by `createSessionToken()`
+ * @returns the user id and expiry, or `null` when the token is tampered with or expired
+ */
+export function readSessionToken(token: string, now = new Date()) {
+  const payload = unsignPayload(token, 'session') as SessionPayload | null;
+  if (
+    typeof payload?.uid !== 'string' ||
+    typeof payload.exp !== 'number' ||
+    payload.exp * 1000 <= now.getTime()
+  ) {
+    return null;
+  }
+  return { userId: payload.uid, expires: new Date(payload.exp * 1000) };
+}
+
+/**
+ * Serializes a `Set-Cookie` header value, pass `null` to clear the session
+ */
+export function serializeSessionCookie(token: string | null) {
+  const attributes = [
+    `${SESSION_COOKIE}=${token ?? ''}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${token ? SESSION_MAX_AGE_SECONDS : 0}`,
+  ];
+  if (env.NODE_ENV === 'production') {
+    attributes.push('Secure');
+  }
+  return attributes.join('; ');
+}
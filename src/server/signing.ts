@@ -0,0 +1,74 @@
+/**
+ * HMAC signing for values handed to clients that must come back unmodified,
+ * like session cookies and pagination cursors.
+ */
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { env } from './env';
+
+// only ever used outside of production, see `SESSION_SECRET` in `src/utils/env.ts`
+const DEV_SECRET = 'dev-only-session-secret-do-not-use-in-production';
+
+/**
+ * Separates the uses of the secret so a value signed for one purpose is rejected by another
+ */
+export type SigningPurpose = 'session' | 'cursor';
+
+function signature(value: string, purpose: SigningPurpose) {
+  return createHmac('sha256', env.SESSION_SECRET ?? DEV_SECRET)
+    .update(`${purpose}:${value}`)
+    .digest('base64url');
+}
+
+/**
+ * @returns `<value>.<signature>`, `value` must not contain a `.`
+ */
+export function sign(value: string, purpose: SigningPurpose) {
+  return `${value}.${signature(value, purpose)}`;
+}
+
+/**
+ * Verifies a value created by `sign()`
+ * @returns the original value, or `null` when it was tampered with
+ */
+export function unsign(signed: string, purpose: SigningPurpose) {
+  const [value, actual, ...rest] = signed.split('.');
+  if (!value || !actual || rest.length > 0) {
+    return null;
+  }
+  const expectedBuffer = Buffer.from(signature(value, purpose));
+  const actualBuffer = Buffer.from(actual);
+  if (
+    expectedBuffer.length !== actualBuffer.length ||
+    !timingSafeEqual(expectedBuffer, actualBuffer)
+  ) {
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Signs a JSON-serializable payload, see `sign()`
+ */
+export function signPayload(payload: unknown, purpose: SigningPurpose) {
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return sign(encoded, purpose);
+}
+
+/**
+ * Verifies a payload created by `signPayload()`
+ * @returns the parsed payload, or `null` when it was tampered with
+ */
+export function unsignPayload(
+  signed: string,
+  purpose: SigningPurpose,
+): unknown {
+  const encoded = unsign(signed, purpose);
+  if (!encoded) {
+    return null;
+  }
+  try {
+    return JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { slugify } from './slug';
+
+describe('slugify', () => {
+  it.each([
+    ['Hello, World!', 'hello-world'],
+    ['  tRPC & Next.js  ', 'trpc-next-js'],
+    ['Crème brûlée', 'creme-brulee'],
+    ['???', 'post'],
+  ])('turns %j into %j', (title, slug) => {
+    expect(slugify(title)).toBe(slug);
+  });
+
+  it('limits the length without a trailing dash', () => {
+    const slug = slugify(`${'a'.repeat(59)} b`);
+    expect(slug).toBe('a'.repeat(59));
+  });
+});
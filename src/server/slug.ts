@@ -0,0 +1,95 @@
+/**
+ * Human-readable post URLs, `/post/my-first-post` instead of `/post/<uuid>`
+ */
+import type { TransactionClient } from './prisma';
+import { prisma } from './prisma';
+
+const MAX_SLUG_LENGTH = 60;
+
+/**
+ * Turns a title into a URL-safe slug, `Hello, World!` becomes `hello-world`.
+ * The `post_slugs` migration backfills existing posts the same way.
+ */
+export function slugify(title: string) {
+  const slug = title
+    .normalize('NFKD')
+    // drops the accents split off by `normalize()`
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/^-+|-+$/g, '');
+  return slug || 'post';
+}
+
+/**
+ * A slug for `title` that no other post uses or redirects from, suffixed with `-2`, `-3`... on collisions.
+ * A post may take back its own former slugs.
+ */
+export async function uniquePostSlug(
+  tx: TransactionClient,
+  title: string,
+  postId?: string,
+) {
+  const base = slugify(title);
+  const otherPost = postId ? { not: postId } : undefined;
+  const posts = await tx.post.findMany({
+    // trashed posts keep their slug so they can be restored
+    where: { slug: { startsWith: base }, id: otherPost, deletedAt: undefined },
+    select: { slug: true },
+  });
+  const redirects = await tx.postSlugRedirect.findMany({
+    where: { slug: { startsWith: base }, postId: otherPost },
+    select: { slug: true },
+  });
+  const taken = new Set([...posts, ...redirects].map(({ slug }) => slug));
+
+  let slug = base;
+  for (let n = 2; taken.has(slug); n++) {
+    slug = `${base}-${n}`;
+  }
+  return slug;
+}
+
+/**
+ * Gives a renamed post a slug for its new title, links with the old slug redirect to the post.
+ * The slug is kept while it still fits the title, e.g. `hello-2` for `Hello`.
+ */
+export async function renamePostSlug(
+  tx: TransactionClient,
+  post: { id: string; slug: string },
+  title: string,
+) {
+  const base = slugify(title);
+  if (post.slug === base || new RegExp(`^${base}-\\d+$`).test(post.slug)) {
+    return post.slug;
+  }
+  const slug = await uniquePostSlug(tx, title, post.id);
+  await tx.postSlugRedirect.deleteMany({ where: { slug } });
+  await tx.postSlugRedirect.create({
+    data: { slug: post.slug, postId: post.id },
+  });
+  await tx.post.update({
+    where: { id: post.id },
+    data: { slug },
+  });
+  return slug;
+}
+
+/**
+ * Resolves a slug, a slug the post had before being renamed, or a legacy post id to the post's id
+ */
+export async function findPostIdBySlug(slug: string) {
+  const post =
+    (await prisma.post.findUnique({
+      where: { slug },
+      select: { id: true },
+    })) ??
+    (await prisma.post.findFirst({
+      where: {
+        OR: [{ id: slug }, { slugRedirects: { some: { slug } } }],
+      },
+      select: { id: true },
+    }));
+  return post?.id ?? null;
+}
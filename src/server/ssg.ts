@@ -0,0 +1,41 @@
+/**
+ * Prefetches tRPC queries on the server for pages that opt in with `getStaticProps` or `getServerSideProps`.
+ * Return `helpers.dehydrate()` as the `trpcState` prop, `withTRPC()` hydrates the client's cache with it.
+ * @see https://trpc.io/docs/v11/ssg
+ * @see https://trpc.io/docs/v11/client/nextjs/server-side-helpers
+ */
+import { TRPCError } from '@trpc/server';
+import { createServerSideHelpers } from '@trpc/react-query/server';
+import type { GetServerSidePropsContext } from 'next';
+import { transformer } from '~/utils/transformer';
+import { createContextInner, getSession } from './context';
+import { appRouter } from './routers/_app';
+
+/**
+ * For `getStaticProps()`, queries run without a session since the page is shared by every visitor
+ */
+export async function createStaticHelpers() {
+  return createServerSideHelpers({
+    router: appRouter,
+    ctx: await createContextInner({ session: null }),
+    transformer,
+  });
+}
+
+/**
+ * For `getServerSideProps()`, queries run as the visitor
+ */
+export async function createRequestHelpers(context: GetServerSidePropsContext) {
+  return createServerSideHelpers({
+    router: appRouter,
+    ctx: await createContextInner({ session: await getSession(context.req) }),
+    transformer,
+  });
+}
+
+/**
+ * Whether a prefetch failed with `NOT_FOUND`, pages answer those with a 404
+ */
+export function isNotFoundError(error: unknown) {
+  return error instanceof TRPCError && error.code === 'NOT_FOUND';
+}
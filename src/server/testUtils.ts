@@ -0,0 +1,26 @@
+/**
+ * Fixtures shared by the integration tests, they write to the test database
+ */
+import { createContextInner } from './context';
+import { prisma } from './prisma';
+import { createCaller } from './routers/_app';
+import type { Session } from './session';
+
+/**
+ * Creates a new user with a unique email and a session for them
+ */
+export async function createTestSession(): Promise<Session> {
+  const user = await prisma.user.create({
+    data: { email: `test-${crypto.randomUUID()}@example.com` },
+    select: { id: true, email: true, name: true },
+  });
+  return { user, expires: new Date(Date.now() + 60_000) };
+}
+
+/**
+ * A server-side caller signed in as a new user, see `auth.me` for who that is
+ */
+export async function createSignedInCaller() {
+  const ctx = await createContextInner({ session: await createTestSession() });
+  return createCaller(ctx);
+}
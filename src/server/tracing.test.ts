@@ -0,0 +1,79 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { trace } from '@opentelemetry/api';
+import { expect, test } from 'vitest';
+import { createContextInner } from './context';
+import { createCaller } from './routers/_app';
+import { startTracing } from './tracing';
+
+interface ExportedSpan {
+  name: string;
+  status: { code?: number };
+  attributes: { key: string; value: { stringValue?: string } }[];
+}
+
+/**
+ * Stands in for an OpenTelemetry collector, keeping the spans posted to it
+ */
+async function startCollector() {
+  const spans: ExportedSpan[] = [];
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const body = JSON.parse(Buffer.concat(chunks).toString()) as {
+        resourceSpans: { scopeSpans: { spans: ExportedSpan[] }[] }[];
+      };
+      for (const resourceSpans of body.resourceSpans) {
+        for (const scopeSpans of resourceSpans.scopeSpans) {
+          spans.push(...scopeSpans.spans);
+        }
+      }
+      res.writeHead(200, { 'content-type': 'application/json' }).end('{}');
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    endpoint: `http://127.0.0.1:${port}`,
+    spans,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+test('exports a span per call to the collector', async () => {
+  const collector = await startCollector();
+  const provider = startTracing({ endpoint: collector.endpoint });
+  try {
+    const caller = createCaller(
+      await createContextInner({ session: null, requestId: 'request-1' }),
+    );
+    await caller.healthcheck();
+    await expect(caller.post.byId({ id: 'missing' })).rejects.toThrow();
+    await provider.forceFlush();
+  } finally {
+    await provider.shutdown();
+    trace.disable();
+    await collector.close();
+  }
+
+  const attributesOf = (span: ExportedSpan) =>
+    Object.fromEntries(
+      span.attributes.map(({ key, value }) => [key, value.stringValue]),
+    );
+  expect(collector.spans).toHaveLength(2);
+  const [healthcheck, byId] = collector.spans;
+  expect(healthcheck.name).toBe('trpc healthcheck');
+  expect(attributesOf(healthcheck)).toMatchObject({
+    'rpc.system': 'trpc',
+    'rpc.method': 'healthcheck',
+    'trpc.type': 'query',
+    'trpc.request_id': 'request-1',
+  });
+  expect(byId.name).toBe('trpc post.byId');
+  // `SpanStatusCode.ERROR`
+  expect(byId.status.code).toBe(2);
+  expect(attributesOf(byId)).toMatchObject({
+    'trpc.error_code': 'NOT_FOUND',
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * OpenTelemetry tracing for procedure calls, the `logged` middleware in `./trpc.ts` creates the spans.
+ * They go nowhere until tracing is started, which `src/instrumentation.ts` does
+ * when `OTEL_EXPORTER_OTLP_ENDPOINT` points at a collector, e.g. `http://localhost:4318`.
+ * @see https://opentelemetry.io/docs/languages/js/
+ */
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import type { SpanExporter } from '@opentelemetry/sdk-trace-base';
+import {
+  BatchSpanProcessor,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+
+export interface TracingOptions {
+  /**
+   * Base URL of an OTLP/HTTP collector, spans are sent to `/v1/traces` below it
+   */
+  endpoint?: string;
+  /**
+   * Replaces the OTLP exporter, spans are then exported one by one instead of batched
+   */
+  exporter?: SpanExporter;
+  serviceName?: string;
+}
+
+/**
+ * Registers a global tracer provider exporting every span
+ * @returns the provider, call `shutdown()` on it to flush and stop
+ */
+export function startTracing(opts: TracingOptions) {
+  const { endpoint, exporter, serviceName = 'trpc-next-prisma' } = opts;
+  const spanProcessor = exporter
+    ? new SimpleSpanProcessor(exporter)
+    : new BatchSpanProcessor(
+        new OTLPTraceExporter({
+          url: endpoint && new URL('/v1/traces', endpoint).toString(),
+        }),
+      );
+  const provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ [ATTR_SERVICE_NAME]: serviceName }),
+    spanProcessors: [spanProcessor],
+  });
+  provider.register();
+  return provider;
+}
@@ -0,0 +1,34 @@
+/**
+ * Deleted posts go to the trash first, where they can be restored until the retention window ends
+ */
+import type { Prisma } from '~/generated/prisma/client';
+import { prisma } from './prisma';
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const TRASH_RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+/**
+ * When a post trashed at `deletedAt` is purged for good
+ */
+export function purgeAtFor(deletedAt: Date) {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_MS);
+}
+
+/**
+ * Permanently deletes every post that has been in the trash longer than the retention window
+ * @param posts limits the purge to matching posts
+ * @returns the number of posts purged
+ */
+export async function purgeExpiredTrash(
+  now: Date,
+  posts: Prisma.PostWhereInput = {},
+) {
+  const { count } = await prisma.post.deleteMany({
+    where: {
+      ...posts,
+      deletedAt: { lte: new Date(now.getTime() - TRASH_RETENTION_MS) },
+    },
+  });
+  return count;
+}
@@ -0,0 +1,67 @@
+import { fetchRequestHandler } from '@trpc/server/adapters/fetch';
+import { expect, test } from 'vitest';
+import { transformer } from '~/utils/transformer';
+import { createContextInner } from './context';
+import { appRouter } from './routers/_app';
+import { createTestSession } from './testUtils';
+
+/**
+ * Calls a procedure over HTTP as a signed-in user, so errors go through `errorFormatter`
+ */
+async function callApi(path: string, input: unknown, method: 'GET' | 'POST') {
+  const session = await createTestSession();
+  const serialized = JSON.stringify(transformer.serialize(input));
+  const url = new URL(`http://localhost/api/trpc/${path}`);
+  if (method === 'GET') {
+    url.searchParams.set('input', serialized);
+  }
+  const res = await fetchRequestHandler({
+    endpoint: '/api/trpc',
+    req: new Request(url, {
+      method,
+      headers: { 'content-type': 'application/json' },
+      body: method === 'POST' ? serialized : undefined,
+    }),
+    router: appRouter,
+    createContext: () => createContextInner({ session }),
+  });
+  const body = (await res.json()) as {
+    error: { json: { data: Record<string, unknown> } };
+  };
+  return { status: res.status, data: body.error.json.data };
+}
+
+test('invalid input comes with its zod issues by field', async () => {
+  const invalid = await callApi(
+    'post.add',
+    { title: '', text: 'text' },
+    'POST',
+  );
+  expect(invalid.status).toBe(400);
+  expect(invalid.data).toMatchObject({
+    code: 'BAD_REQUEST',
+    zodError: {
+      errors: [],
+      properties: { title: { errors: [expect.any(String)] } },
+    },
+  });
+
+  // refinements report their issues the same way
+  const unscheduled = await callApi(
+    'post.add',
+    { title: 'title', text: 'text', status: 'scheduled' },
+    'POST',
+  );
+  expect(unscheduled.data).toMatchObject({
+    zodError: {
+      properties: {
+        publishAt: { errors: ['Scheduled posts need a publish date'] },
+      },
+    },
+  });
+});
+
+test('other errors have no zod issues', async () => {
+  const { data } = await callApi('post.byId', { id: 'missing' }, 'GET');
+  expect(data).toMatchObject({ code: 'NOT_FOUND', zodError: null });
+});
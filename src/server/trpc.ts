@@ -8,22 +8,97 @@
  * @see https://trpc.io/docs/v11/procedures
  */
 
-import { initTRPC } from '@trpc/server';
+import { SpanKind, SpanStatusCode, trace } from '@opentelemetry/api';
+import { initTRPC, TRPCError } from '@trpc/server';
+import { z } from 'zod';
 import { transformer } from '~/utils/transformer';
 import type { Context } from './context';
+import { env } from './env';
+import { logger } from './logger';
+import type { OpenApiOperation } from './openapi';
+import type { RateLimit } from './rateLimit';
+import { enforceRateLimit, retryAfterMsOf } from './rateLimit';
 
-const t = initTRPC.context<Context>().create({
+/**
+ * Declarative options for procedures, set with `.meta()`
+ * @see https://trpc.io/docs/v11/server/metadata
+ */
+export interface Meta {
   /**
-   * @see https://trpc.io/docs/v11/data-transformers
+   * Lets shared caches keep responses of this query, see `src/server/cache.ts`.
+   * Only for queries whose result is the same for every signed-out visitor.
+   * Streamed responses are never cached, so also add the query to `CACHEABLE_QUERIES` in `src/utils/trpc.ts`
+   * for the app's client to send it without streaming.
    */
-  transformer,
+  cache?: {
+    /**
+     * Seconds a shared cache may serve the response without asking again
+     */
+    sMaxAge: number;
+    /**
+     * Seconds after that a stale response may be served while it is refreshed in the background
+     */
+    staleWhileRevalidate?: number;
+  };
   /**
-   * @see https://trpc.io/docs/v11/error-formatting
+   * Limits how often callers may run this procedure, see `src/server/rateLimit.ts`.
+   * `ip` applies to every caller, `user` to signed-in users whichever address they call from.
    */
-  errorFormatter({ shape }) {
-    return shape;
-  },
-});
+  rateLimit?: {
+    ip?: RateLimit;
+    user?: RateLimit;
+  };
+  /**
+   * Serves the procedure as a REST endpoint under `/api/v1` and documents it, see `src/server/openapi.ts`
+   */
+  openapi?: OpenApiOperation;
+}
+
+const t = initTRPC
+  .context<Context>()
+  .meta<Meta>()
+  .create({
+    /**
+     * @see https://trpc.io/docs/v11/data-transformers
+     */
+    transformer,
+    /**
+     * @see https://trpc.io/docs/v11/error-formatting
+     */
+    errorFormatter({ shape, error }) {
+      return {
+        ...shape,
+        data: {
+          ...shape.data,
+          /**
+           * Set when the input failed validation, with the issues nested like the input so forms can show them by field
+           * @see https://zod.dev/error-formatting#ztreeifyerror
+           */
+          zodError:
+            error.code === 'BAD_REQUEST' && error.cause instanceof z.ZodError
+              ? z.treeifyError(error.cause)
+              : null,
+          /**
+           * Set on `TOO_MANY_REQUESTS` errors, how long to wait before calling again
+           */
+          retryAfterMs: retryAfterMsOf(error),
+        },
+      };
+    },
+    /**
+     * Subscriptions are served as server-sent events, the pings keep idle streams from being cut by proxies
+     * @see https://trpc.io/docs/v11/server/subscriptions
+     */
+    sse: {
+      ping: {
+        enabled: true,
+        intervalMs: 15_000,
+      },
+      client: {
+        reconnectAfterInactivityMs: 20_000,
+      },
+    },
+  });
 
 /**
  * Create a router
@@ -31,11 +106,125 @@ const t = initTRPC.context<Context>().create({
  */
 export const router = t.router;
 
+const tracer = trace.getTracer('trpc');
+
+/**
+ * Size of the input as sent over the wire, `null` if it can't be read
+ */
+async function inputBytesOf(getRawInput: () => Promise<unknown>) {
+  try {
+    const input = await getRawInput();
+    return input === undefined
+      ? 0
+      : Buffer.byteLength(JSON.stringify(transformer.serialize(input)));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Logs every call as a JSON line and traces it as a span, see `src/server/logger.ts` and `src/server/tracing.ts`.
+ * Calls batched into one HTTP request share its `requestId`.
+ */
+const logged = t.middleware(async function logged(opts) {
+  const { path, type, ctx } = opts;
+  return tracer.startActiveSpan(
+    `trpc ${path}`,
+    {
+      kind: SpanKind.SERVER,
+      attributes: {
+        'rpc.system': 'trpc',
+        'rpc.method': path,
+        'trpc.type': type,
+        'trpc.request_id': ctx.requestId,
+      },
+    },
+    async (span) => {
+      const start = performance.now();
+      try {
+        const result = await opts.next();
+        const durationMs = Math.round((performance.now() - start) * 100) / 100;
+        const code = result.ok ? undefined : result.error.code;
+        if (!result.ok) {
+          span.setAttribute('trpc.error_code', result.error.code);
+          span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: result.error.message,
+          });
+        }
+        logger.log(
+          code === 'INTERNAL_SERVER_ERROR' ? 'error' : code ? 'warn' : 'info',
+          'trpc call',
+          {
+            requestId: ctx.requestId,
+            path,
+            type,
+            durationMs,
+            inputBytes: await inputBytesOf(opts.getRawInput),
+            ok: result.ok,
+            code,
+          },
+        );
+        return result;
+      } finally {
+        span.end();
+      }
+    },
+  );
+});
+
+/**
+ * Enforces the `rateLimit` of procedures that declare one in their meta
+ */
+const rateLimited = t.middleware(async function rateLimited(opts) {
+  const limits = opts.meta?.rateLimit;
+  if (limits) {
+    await enforceRateLimit({
+      path: opts.path,
+      limits,
+      ip: opts.ctx.ip,
+      userId: opts.ctx.session?.user.id,
+    });
+  }
+  return opts.next();
+});
+
 /**
  * Create an unprotected procedure
  * @see https://trpc.io/docs/v11/procedures
  **/
-export const publicProcedure = t.procedure;
+export const publicProcedure = t.procedure.use(logged).use(rateLimited);
+
+/**
+ * Create a procedure that requires a signed-in user, `ctx.session` is non-nullable inside of it
+ * @see https://trpc.io/docs/v11/server/authorization
+ **/
+export const protectedProcedure = publicProcedure.use(function isAuthed(opts) {
+  const { session } = opts.ctx;
+  if (!session) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'You must be signed in to do this',
+    });
+  }
+  return opts.next({
+    ctx: { session },
+  });
+});
+
+/**
+ * Procedures only users listed in `ADMIN_EMAILS` may call
+ **/
+export const adminProcedure = protectedProcedure.use(function isAdmin(opts) {
+  const { session } = opts.ctx;
+  if (!env.ADMIN_EMAILS.includes(session.user.email.toLowerCase())) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Only admins can do this',
+    });
+  }
+  return opts.next();
+});
 
 /**
  * Merge multiple routers together
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { sideBySideDiff } from './diff';
+
+describe('sideBySideDiff', () => {
+  it('keeps unchanged lines on both sides', () => {
+    expect(sideBySideDiff('a\nb', 'a\nb')).toEqual([
+      {
+        before: { text: 'a', changed: false },
+        after: { text: 'a', changed: false },
+      },
+      {
+        before: { text: 'b', changed: false },
+        after: { text: 'b', changed: false },
+      },
+    ]);
+  });
+
+  it('pairs replaced lines and pads the shorter side', () => {
+    expect(sideBySideDiff('a\nb\nc', 'a\nx\ny\nc')).toEqual([
+      {
+        before: { text: 'a', changed: false },
+        after: { text: 'a', changed: false },
+      },
+      {
+        before: { text: 'b', changed: true },
+        after: { text: 'x', changed: true },
+      },
+      { before: null, after: { text: 'y', changed: true } },
+      {
+        before: { text: 'c', changed: false },
+        after: { text: 'c', changed: false },
+      },
+    ]);
+  });
+
+  it('handles added and removed text at the end', () => {
+    expect(sideBySideDiff('a\nb', 'a')).toEqual([
+      {
+        before: { text: 'a', changed: false },
+        after: { text: 'a', changed: false },
+      },
+      { before: { text: 'b', changed: true }, after: null },
+    ]);
+  });
+});
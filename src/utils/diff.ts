@@ -0,0 +1,73 @@
+import { diffLines } from 'diff';
+
+export type DiffCell = { text: string; changed: boolean } | null;
+
+export interface DiffRow {
+  before: DiffCell;
+  after: DiffCell;
+}
+
+// so a missing line break at the end doesn't mark the last line as changed
+function withFinalNewline(value: string) {
+  return value.endsWith('\n') ? value : `${value}\n`;
+}
+
+function splitLines(value: string) {
+  const lines = value.split('\n');
+  // `diffLines()` keeps the line breaks, the last one leaves an empty entry
+  if (lines.at(-1) === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Lines of two texts side by side for a diff view.
+ * Removed lines are paired with the lines added in their place,
+ * `null` cells pad the side that has fewer lines.
+ */
+export function sideBySideDiff(before: string, after: string): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      const removedLine = removed[i];
+      const addedLine = added[i];
+      rows.push({
+        before:
+          removedLine === undefined
+            ? null
+            : { text: removedLine, changed: true },
+        after:
+          addedLine === undefined ? null : { text: addedLine, changed: true },
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const change of diffLines(
+    withFinalNewline(before),
+    withFinalNewline(after),
+  )) {
+    const lines = splitLines(change.value);
+    if (change.removed) {
+      removed.push(...lines);
+    } else if (change.added) {
+      added.push(...lines);
+    } else {
+      flush();
+      for (const line of lines) {
+        rows.push({
+          before: { text: line, changed: false },
+          after: { text: line, changed: false },
+        });
+      }
+    }
+  }
+  flush();
+
+  return rows;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'vitest';
+import { describeFeatures } from '~/server/env';
+import { createEnv } from './env';
+
+const serverSource = {
+  DATABASE_URL: 'postgresql://postgres@localhost:5432/trpcdb',
+  NODE_ENV: 'development',
+};
+
+describe('createEnv', () => {
+  test('parses and defaults server variables on the server', () => {
+    const env = createEnv({
+      source: {
+        ...serverSource,
+        PORT: '4000',
+        ADMIN_EMAILS: 'A@x.com, b@x.com',
+      },
+      isServer: true,
+    });
+    expect(env).toMatchObject({
+      PORT: 4000,
+      POST_EVENTS: 'memory',
+      TRUST_PROXY: false,
+      ADMIN_EMAILS: ['a@x.com', 'b@x.com'],
+    });
+  });
+
+  test('requires a session secret in production', () => {
+    expect(() =>
+      createEnv({
+        source: { ...serverSource, NODE_ENV: 'production' },
+        isServer: true,
+      }),
+    ).toThrow('SESSION_SECRET is required in production');
+  });
+
+  test('only reads public variables in the browser', () => {
+    const env = createEnv({
+      source: { NODE_ENV: 'production', NEXT_PUBLIC_NODE_ENV: 'development' },
+      isServer: false,
+    });
+    expect(env.NEXT_PUBLIC_NODE_ENV).toBe('development');
+    expect(() => env.DATABASE_URL).toThrow(
+      "DATABASE_URL is a server-only environment variable and can't be read in the browser",
+    );
+  });
+
+  test('rejects invalid public variables in the browser', () => {
+    expect(() =>
+      createEnv({ source: { NODE_ENV: 'staging' }, isServer: false }),
+    ).toThrow('Invalid environment variables');
+  });
+});
+
+test('describeFeatures() reports the optional features in use', () => {
+  const env = createEnv({
+    source: {
+      ...serverSource,
+      POST_EVENTS: 'postgres',
+      OTEL_EXPORTER_OTLP_ENDPOINT: 'http://localhost:4318',
+      ERROR_REPORT_URL: 'https://errors.example.com/hook?token=secret',
+    },
+    isServer: true,
+  });
+  expect(describeFeatures(env)).toEqual({
+    sessionSecret: 'development fallback',
+    postEvents: 'postgres',
+    rateLimitStore: 'memory',
+    trustProxy: false,
+    tracing: 'http://localhost:4318',
+    errorReportUrl: true,
+    admins: 0,
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Every environment variable of the app in one schema, split into a server-only and a public section.
+ * Public variables are inlined into the browser bundle by Next.js, server-only ones never leave the server,
+ * reading one in the browser throws instead of quietly returning `undefined`.
+ * Server code imports `env` from `src/server/env.ts`, code that also runs in the browser `publicEnv` from here.
+ * @see https://nextjs.org/docs/pages/guides/environment-variables
+ */
+import { z } from 'zod';
+
+export const serverEnvSchema = z.object({
+  DATABASE_URL: z.url(),
+  /**
+   * Key used to sign session cookies and pagination cursors, generate one with `openssl rand -base64 32`
+   */
+  SESSION_SECRET: z.string().min(32).optional(),
+  /**
+   * Public URL of the app, used to build links in outgoing mail
+   */
+  APP_URL: z.url().default('http://localhost:3000'),
+  /**
+   * Port the server listens on, server-side rendering calls the API through it
+   */
+  PORT: z.coerce.number().int().positive().default(3000),
+  /**
+   * Set by Vercel to the deployment's host name
+   */
+  VERCEL_URL: z.string().optional(),
+  /**
+   * Set by Render to the service's host name within its private network
+   */
+  RENDER_INTERNAL_HOSTNAME: z.string().optional(),
+  /**
+   * Version of the running build reported by `system.ready`, e.g. the git commit it was built from
+   */
+  BUILD_VERSION: z.string().optional(),
+  /**
+   * Migrations `system.ready` expects the database to have applied, defaults to `prisma/migrations`.
+   * Standalone and serverless builds don't ship that folder, without it the check is skipped.
+   */
+  MIGRATIONS_DIR: z.string().optional(),
+  /**
+   * How post events reach subscriptions, `postgres` fans them out to every instance with LISTEN/NOTIFY
+   */
+  POST_EVENTS: z.enum(['memory', 'postgres']).default('memory'),
+  /**
+   * Where rate limit buckets are kept, `postgres` shares them between instances
+   */
+  RATE_LIMIT_STORE: z.enum(['memory', 'postgres']).default('memory'),
+  /**
+   * Set when running behind a proxy that sets `X-Forwarded-For`, so rate limits apply to the client's address
+   */
+  TRUST_PROXY: z.stringbool().default(false),
+  /**
+   * Least severe level of server logs, defaults to `info` and to `silent` in tests
+   */
+  LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error', 'silent']).optional(),
+  /**
+   * OTLP/HTTP collector to export traces to, e.g. `http://localhost:4318`, tracing is off without it
+   */
+  OTEL_EXPORTER_OTLP_ENDPOINT: z.url().optional(),
+  /**
+   * Where unexpected errors are kept for `/admin/errors`
+   */
+  ERROR_REPORT_FILE: z.string().default('.data/errors.json'),
+  /**
+   * Also post error reports as JSON to this URL, e.g. an error tracker's webhook
+   */
+  ERROR_REPORT_URL: z.url().optional(),
+  /**
+   * Comma-separated emails of users who may open the admin pages
+   */
+  ADMIN_EMAILS: z
+    .string()
+    .default('')
+    .transform((value) =>
+      value
+        .split(',')
+        .map((email) => email.trim().toLowerCase())
+        .filter(Boolean),
+    ),
+});
+
+export const publicEnvSchema = z.object({
+  /**
+   * Next.js inlines it into the browser bundle like the `NEXT_PUBLIC_` variables
+   */
+  NODE_ENV: z.enum(['development', 'test', 'production']),
+  /**
+   * Overrides `NODE_ENV` in the browser, e.g. to get dev logging from a production build
+   */
+  NEXT_PUBLIC_NODE_ENV: z
+    .enum(['development', 'test', 'production'])
+    .optional(),
+});
+
+export const envSchema = serverEnvSchema
+  .extend(publicEnvSchema.shape)
+  .refine((env) => env.NODE_ENV !== 'production' || !!env.SESSION_SECRET, {
+    message: 'SESSION_SECRET is required in production',
+    path: ['SESSION_SECRET'],
+  });
+
+export type Env = z.output<typeof envSchema>;
+
+/**
+ * Validates the environment, the server section is only read where `isServer` is set
+ * @throws if a variable is missing or invalid
+ * @returns the variables, reading a server-only one throws unless `isServer` is set
+ */
+export function createEnv(opts: {
+  source: Record<string, string | undefined>;
+  isServer: boolean;
+}): Env {
+  const { source, isServer } = opts;
+  const parsed = isServer
+    ? envSchema.safeParse(source)
+    : publicEnvSchema.safeParse(source);
+  if (!parsed.success) {
+    throw new Error(
+      '❌ Invalid environment variables: ' +
+        JSON.stringify(z.treeifyError(parsed.error), null, 4),
+    );
+  }
+  return new Proxy(parsed.data as Env, {
+    get(target, key) {
+      if (
+        !isServer &&
+        typeof key === 'string' &&
+        key in serverEnvSchema.shape
+      ) {
+        throw new Error(
+          `❌ ${key} is a server-only environment variable and can't be read in the browser`,
+        );
+      }
+      return Reflect.get(target, key);
+    },
+  });
+}
+
+// jsdom tests run server and browser code in the same process
+const isServer =
+  typeof window === 'undefined' || process.env.NODE_ENV === 'test';
+
+export const publicEnv = createEnv({
+  source: isServer
+    ? process.env
+    : {
+        // Next.js only inlines variables it sees spelled out like this
+        NODE_ENV: process.env.NODE_ENV,
+        NEXT_PUBLIC_NODE_ENV: process.env.NEXT_PUBLIC_NODE_ENV,
+      },
+  isServer,
+});
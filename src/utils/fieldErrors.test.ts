@@ -0,0 +1,29 @@
+import { expect, test } from 'vitest';
+import { z } from 'zod';
+import { fieldErrorsOf } from './fieldErrors';
+
+test('maps zod issues onto the top-level fields they belong to', () => {
+  const schema = z
+    .object({
+      title: z.string().min(1, 'Title is required'),
+      text: z.string(),
+      tags: z.array(z.string().max(3, 'Tag too long')),
+    })
+    .refine(() => false, { message: 'Not a field error' });
+
+  const result = schema.safeParse({
+    title: '',
+    text: 'fine',
+    tags: ['ok', 'too long'],
+  });
+
+  expect(result.success).toBe(false);
+  expect(fieldErrorsOf(z.treeifyError(result.error!))).toEqual({
+    title: 'Title is required',
+    tags: 'Tag too long',
+  });
+});
+
+test('has no field errors without a tree', () => {
+  expect(fieldErrorsOf(null)).toEqual({});
+});
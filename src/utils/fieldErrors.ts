@@ -0,0 +1,36 @@
+/**
+ * The shape of `z.treeifyError()`, as sent in `error.data.zodError` by `src/server/trpc.ts`
+ */
+export interface ErrorTree {
+  errors: string[];
+  properties?: Record<string, ErrorTree | undefined>;
+  items?: (ErrorTree | undefined)[];
+}
+
+function firstError(tree: ErrorTree | undefined): string | undefined {
+  if (!tree) {
+    return undefined;
+  }
+  return (
+    tree.errors[0] ??
+    Object.values(tree.properties ?? {})
+      .map(firstError)
+      .find(Boolean) ??
+    (tree.items ?? []).map(firstError).find(Boolean)
+  );
+}
+
+/**
+ * The first error of each top-level input field, e.g. for the `error` prop of `FormInput`.
+ * Errors of nested fields and list items count for the field they are in.
+ */
+export function fieldErrorsOf(
+  tree: ErrorTree | null | undefined,
+): Partial<Record<string, string>> {
+  return Object.fromEntries(
+    Object.entries(tree?.properties ?? {}).flatMap(([field, fieldTree]) => {
+      const error = firstError(fieldTree);
+      return error ? [[field, error]] : [];
+    }),
+  );
+}
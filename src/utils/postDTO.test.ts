@@ -0,0 +1,39 @@
+import { expect, test } from 'vitest';
+import { createContextInner } from '~/server/context';
+import { createCallerFactory, publicProcedure, router } from '~/server/trpc';
+import type { PostDTO } from './postDTO';
+import { postDTOSchema } from './postDTO';
+
+const post: PostDTO = {
+  id: 'post-1',
+  slug: 'hello',
+  title: 'hello',
+  text: 'hello world',
+  status: 'published',
+  publishAt: new Date('2026-01-01T00:00:00Z'),
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  author: { id: 'user-1', name: 'Alice' },
+  tags: [{ id: 'tag-1', name: 'react' }],
+};
+
+test('rejects unexpected fields outside of production', () => {
+  expect(postDTOSchema.parse(post)).toEqual(post);
+  const leaky = { ...post, author: { ...post.author, email: 'a@x.com' } };
+  expect(() => postDTOSchema.parse(leaky)).toThrow(/email/);
+});
+
+test('procedures fail instead of leaking fields', async () => {
+  const leakyRouter = router({
+    byId: publicProcedure
+      .output(postDTOSchema)
+      .query(() => ({ ...post, authorId: 'user-1' })),
+  });
+  const caller = createCallerFactory(leakyRouter)(
+    await createContextInner({ session: null }),
+  );
+  await expect(caller.byId()).rejects.toMatchObject({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: 'Output validation failed',
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * The shape of posts sent to clients, shared by the `post` router's output schemas, pages and the OpenAPI document,
+ * see `API_DOCUMENT` in `src/server/openapi.ts`.
+ * Output schemas are the last guard against leaking fields: production strips fields they don't list,
+ * development and tests fail the call so a leak shows up before it ships.
+ */
+import { z } from 'zod';
+import { PostStatus } from '~/generated/prisma/enums';
+import { publicEnv } from './env';
+
+/**
+ * An object schema that strips unknown fields in production and rejects them everywhere else
+ */
+function dtoObject<TShape extends z.ZodRawShape>(
+  shape: TShape,
+): z.ZodObject<TShape, z.core.$strip> | z.ZodObject<TShape, z.core.$strict> {
+  return publicEnv.NODE_ENV === 'production'
+    ? z.object(shape)
+    : z.strictObject(shape);
+}
+
+export const tagDTOSchema = dtoObject({
+  id: z.string(),
+  name: z.string(),
+});
+
+export const authorDTOSchema = dtoObject({
+  id: z.string(),
+  name: z.string().nullable(),
+});
+
+export const postDTOSchema = dtoObject({
+  id: z.string(),
+  slug: z.string(),
+  title: z.string(),
+  text: z.string(),
+  status: z.enum(PostStatus),
+  publishAt: z.date().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  /**
+   * `null` for posts written before authorship was tracked
+   */
+  author: authorDTOSchema.nullable(),
+  tags: z.array(tagDTOSchema),
+});
+
+export type PostDTO = z.infer<typeof postDTOSchema>;
+
+/**
+ * A post with the sanitized HTML of its Markdown, as shown on its page
+ */
+export const postWithHtmlDTOSchema = dtoObject({
+  ...postDTOSchema.shape,
+  html: z.string(),
+});
+
+export type PostWithHtmlDTO = z.infer<typeof postWithHtmlDTOSchema>;
+
+export const postListDTOSchema = dtoObject({
+  items: z.array(postDTOSchema),
+  /**
+   * Pass as `cursor` to get the next page, missing on the last page
+   */
+  nextCursor: z.string().optional(),
+  previousCursor: z.string().optional(),
+});
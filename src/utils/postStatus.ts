@@ -0,0 +1,31 @@
+import type { PostDTO } from './postDTO';
+
+export type PostStatus = PostDTO['status'];
+
+export const postStatusLabels: Record<PostStatus, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  published: 'Published',
+  archived: 'Archived',
+};
+
+/**
+ * Formats a date for `<input type="datetime-local">`, which works in local time without a zone
+ */
+export function toDateTimeLocal(date: Date) {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 16);
+}
+
+/**
+ * Reads the fields rendered by `PostStatusFields` from form values
+ */
+export function parsePostStatusInput(values: Record<string, unknown>) {
+  const status = values.status as PostStatus;
+  const publishAt = values.publishAt as string | undefined;
+  return {
+    status,
+    publishAt:
+      status === 'scheduled' && publishAt ? new Date(publishAt) : undefined,
+  };
+}
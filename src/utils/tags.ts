@@ -0,0 +1,7 @@
+/**
+ * Splits free text from a tags input like `react, trpc next` into tag names.
+ * Names are validated and lowercased on the server.
+ */
+export function parseTagInput(value: string) {
+  return value.split(/[\s,]+/).filter((name) => name.length > 0);
+}
@@ -1,4 +1,10 @@
-import { httpBatchStreamLink, loggerLink } from "@trpc/client";
+import {
+  httpBatchLink,
+  httpBatchStreamLink,
+  httpSubscriptionLink,
+  loggerLink,
+  splitLink,
+} from "@trpc/client";
 import { createTRPCNext } from "@trpc/next";
 
 import type { inferRouterInputs, inferRouterOutputs } from "@trpc/server";
@@ -6,28 +12,41 @@ import type { NextPageContext } from "next";
 // ℹ️ Type-only import:
 // https://www.typescriptlang.org/docs/handbook/release-notes/typescript-3-8.html#type-only-imports-and-export
 import type { AppRouter } from "~/server/routers/_app";
+import { publicEnv } from "./env";
 import { transformer } from "./transformer";
 
-const runtimeNodeEnv = process.env.NEXT_PUBLIC_NODE_ENV ?? process.env.NODE_ENV;
+const runtimeNodeEnv = publicEnv.NEXT_PUBLIC_NODE_ENV ?? publicEnv.NODE_ENV;
 
 function getBaseUrl() {
   if (typeof window !== "undefined") {
     return "";
   }
   // reference for vercel.com
-  if (process.env.VERCEL_URL) {
-    return `https://${process.env.VERCEL_URL}`;
+  if (publicEnv.VERCEL_URL) {
+    return `https://${publicEnv.VERCEL_URL}`;
   }
 
   // // reference for render.com
-  if (process.env.RENDER_INTERNAL_HOSTNAME) {
-    return `http://${process.env.RENDER_INTERNAL_HOSTNAME}:${process.env.PORT}`;
+  if (publicEnv.RENDER_INTERNAL_HOSTNAME) {
+    return `http://${publicEnv.RENDER_INTERNAL_HOSTNAME}:${publicEnv.PORT}`;
   }
 
   // assume localhost
-  return `http://127.0.0.1:${process.env.PORT ?? 3000}`;
+  return `http://127.0.0.1:${publicEnv.PORT}`;
 }
 
+/**
+ * Queries with `cache` in their meta, see `src/server/cache.ts`.
+ * They go in batches of their own without streaming, as responses that are streamed
+ * or batched with other calls can't be cached.
+ */
+export const CACHEABLE_QUERIES = new Set<string>([
+  "healthcheck",
+  "post.list",
+  "post.byId",
+  "post.bySlug",
+]);
+
 /**
  * Extend `NextPageContext` with meta data that can be picked up by `responseMeta()` when server-side rendering
  */
@@ -53,6 +72,31 @@ export const trpc = createTRPCNext<AppRouter, SSRContext>({
      * If you want to use SSR, you need to use the server's full URL
      * @see https://trpc.io/docs/v11/ssr
      */
+    const batchOptions = {
+      url: `${getBaseUrl()}/api/trpc`,
+      /**
+       * Set custom request headers on every request from tRPC
+       * @see https://trpc.io/docs/v11/ssr
+       */
+      headers() {
+        if (!config.ctx?.req?.headers) {
+          return {};
+        }
+        // To use SSR properly, you need to forward the client's headers to the server
+        // This is so you can pass through things like cookies when we're server-side rendering
+
+        const {
+          // If you're using Node 18 before 18.15.0, omit the "connection" header
+          connection: _connection,
+          ...headers
+        } = config.ctx.req.headers;
+        return headers;
+      },
+      /**
+       * @see https://trpc.io/docs/v11/data-transformers
+       */
+      transformer,
+    };
     return {
       /**
        * @see https://trpc.io/docs/v11/client/links
@@ -64,30 +108,22 @@ export const trpc = createTRPCNext<AppRouter, SSRContext>({
             runtimeNodeEnv === "development" ||
             (opts.direction === "down" && opts.result instanceof Error),
         }),
-        httpBatchStreamLink({
-          url: `${getBaseUrl()}/api/trpc`,
-          /**
-           * Set custom request headers on every request from tRPC
-           * @see https://trpc.io/docs/v11/ssr
-           */
-          headers() {
-            if (!config.ctx?.req?.headers) {
-              return {};
-            }
-            // To use SSR properly, you need to forward the client's headers to the server
-            // This is so you can pass through things like cookies when we're server-side rendering
-
-            const {
-              // If you're using Node 18 before 18.15.0, omit the "connection" header
-              connection: _connection,
-              ...headers
-            } = config.ctx.req.headers;
-            return headers;
-          },
+        splitLink({
+          condition: (op) => op.type === "subscription",
           /**
-           * @see https://trpc.io/docs/v11/data-transformers
+           * Subscriptions stream as server-sent events, the browser sends cookies along
+           * @see https://trpc.io/docs/v11/client/links/httpSubscriptionLink
            */
-          transformer,
+          true: httpSubscriptionLink({
+            url: `${getBaseUrl()}/api/trpc`,
+            transformer,
+          }),
+          false: splitLink({
+            condition: (op) =>
+              op.type === "query" && CACHEABLE_QUERIES.has(op.path),
+            true: httpBatchLink(batchOptions),
+            false: httpBatchStreamLink(batchOptions),
+          }),
         }),
       ],
       /**
@@ -97,6 +133,8 @@ export const trpc = createTRPCNext<AppRouter, SSRContext>({
     };
   },
   /**
+   * Pages opt into server rendering one by one with `getStaticProps`/`getServerSideProps`
+   * and the helpers in `src/server/ssg.ts`, rather than prepassing every page
    * @see https://trpc.io/docs/v11/ssr
    */
   ssr: false,